@@ -11,7 +11,35 @@ CREATE TABLE Account (
     LastName VARCHAR(255) NOT NULL,
     Username VARCHAR(255) NOT NULL UNIQUE,
     Email VARCHAR(255) NOT NULL UNIQUE,
-    Phone VARCHAR(15) NOT NULL UNIQUE
+    Phone VARCHAR(15) NOT NULL UNIQUE,
+    -- 1 = reader, 2 = editor, 3 = admin. Promote the first admin by hand with
+    -- UPDATE Account SET Account_Role = 3 WHERE Username = '...';
+    Account_Role INT NOT NULL DEFAULT 1 CHECK (Account_Role BETWEEN 1 AND 3),
+    -- access tokens issued before this moment are rejected
+    Tokens_Revoked_At TIMESTAMPTZ,
+    -- NULL until the owner follows the link in the verification email
+    Email_Verified_At TIMESTAMPTZ,
+    -- failed password attempts since the last successful one
+    Failed_Logins INT NOT NULL DEFAULT 0,
+    Locked_Until TIMESTAMPTZ,
+    Last_Login_At TIMESTAMPTZ,
+    -- base32 TOTP secret. Two-factor sign in is on once Totp_Enabled_At is set
+    Totp_Secret VARCHAR(64),
+    Totp_Enabled_At TIMESTAMPTZ,
+    -- the time step of the last accepted code, so codes cannot be replayed
+    Totp_Last_Step BIGINT
+);
+
+-- usernames and email addresses are matched without regard to case, so they must be
+-- unique without regard to case too
+CREATE UNIQUE INDEX account_username_lower_key ON Account (LOWER(Username));
+CREATE UNIQUE INDEX account_email_lower_key ON Account (LOWER(Email));
+
+CREATE TABLE Login_Failures_By_IP (
+    IP_Address VARCHAR(45) PRIMARY KEY,
+    Failures INT NOT NULL DEFAULT 0,
+    Last_Failure_At TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    Locked_Until TIMESTAMPTZ
 );
 
 CREATE TABLE Account_Credential (
@@ -19,7 +47,60 @@ CREATE TABLE Account_Credential (
     Account_ID INT NOT NULL,
     Salted_Hash VARCHAR(255) NOT NULL,
     salt VARCHAR(255),
-    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID)
+    Algorithm VARCHAR(20) NOT NULL DEFAULT 'sha256',
+    Params JSONB,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
+);
+
+CREATE TABLE Refresh_Tokens (
+    Token_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    -- every token rotated out of the same sign in shares a family
+    Family_ID UUID NOT NULL,
+    Token_Hash CHAR(64) NOT NULL UNIQUE,
+    Created_At TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Revoked_At TIMESTAMPTZ,
+    FOREIGN KEY (Account_ID)
+        REFERENCES Account(Account_ID)
+        ON DELETE CASCADE
+);
+
+CREATE INDEX refresh_tokens_family_idx ON Refresh_Tokens (Family_ID);
+
+CREATE TABLE Email_Verifications (
+    Verification_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Token_Hash CHAR(64) NOT NULL UNIQUE,
+    Created_At TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Used_At TIMESTAMPTZ,
+    FOREIGN KEY (Account_ID)
+        REFERENCES Account(Account_ID)
+        ON DELETE CASCADE
+);
+
+CREATE TABLE Recovery_Codes (
+    Code_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Code_Hash CHAR(64) NOT NULL,
+    Used_At TIMESTAMPTZ,
+    FOREIGN KEY (Account_ID)
+        REFERENCES Account(Account_ID)
+        ON DELETE CASCADE,
+    UNIQUE (Account_ID, Code_Hash)
+);
+
+CREATE TABLE Password_Resets (
+    Reset_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Token_Hash CHAR(64) NOT NULL UNIQUE,
+    Created_At TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Used_At TIMESTAMPTZ,
+    FOREIGN KEY (Account_ID)
+        REFERENCES Account(Account_ID)
+        ON DELETE CASCADE
 );
 
 CREATE TABLE temp (
@@ -54,7 +135,8 @@ CREATE TABLE Books (
     rating_4_star INT,
     rating_5_star INT,
     image_url TEXT,
-    image_small_url TEXT
+    image_small_url TEXT,
+    search_vector TSVECTOR
 );
 
 CREATE TABLE Author (
@@ -62,6 +144,17 @@ CREATE TABLE Author (
     Author_Name TEXT NOT NULL UNIQUE
 );
 
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- The form of an author name used to spot variants of the same name: lower case, with
+-- spaces and punctuation removed, so "J. K. Rowling" and "j.k. rowling" share a key
+CREATE FUNCTION author_name_key(name TEXT) RETURNS TEXT AS $$
+    SELECT LOWER(regexp_replace(name, '[^[:alnum:]]+', '', 'g'));
+$$ LANGUAGE SQL IMMUTABLE;
+
+CREATE INDEX author_name_key_idx ON Author (author_name_key(Author_Name));
+CREATE INDEX author_name_trgm_idx ON Author USING GIN (Author_Name gin_trgm_ops);
+
 CREATE TABLE Books_Authors (
     isbn13 BIGINT NOT NULL,
     Author_ID INT NOT NULL,
@@ -74,6 +167,79 @@ CREATE TABLE Books_Authors (
     PRIMARY KEY (Author_ID, isbn13)
 );
 
+CREATE TABLE Book_Ratings (
+    Account_ID INT NOT NULL,
+    isbn13 BIGINT NOT NULL,
+    Rating INT NOT NULL CHECK (Rating BETWEEN 1 AND 5),
+    Created_At TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    Updated_At TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    FOREIGN KEY (Account_ID)
+        REFERENCES Account(Account_ID)
+        ON DELETE CASCADE,
+    FOREIGN KEY (isbn13)
+        REFERENCES Books(isbn13)
+        ON DELETE CASCADE,
+    PRIMARY KEY (Account_ID, isbn13)
+);
+
+CREATE TABLE Reviews (
+    Review_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    isbn13 BIGINT NOT NULL,
+    Review_Text TEXT NOT NULL,
+    Hidden BOOLEAN NOT NULL DEFAULT FALSE,
+    Created_At TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    Updated_At TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    FOREIGN KEY (Account_ID)
+        REFERENCES Account(Account_ID)
+        ON DELETE CASCADE,
+    FOREIGN KEY (isbn13)
+        REFERENCES Books(isbn13)
+        ON DELETE CASCADE,
+    UNIQUE (Account_ID, isbn13)
+);
+
+CREATE INDEX reviews_isbn13_idx ON Reviews (isbn13, Created_At);
+
+CREATE TABLE Review_Helpful (
+    Review_ID INT NOT NULL,
+    Account_ID INT NOT NULL,
+    FOREIGN KEY (Review_ID)
+        REFERENCES Reviews(Review_ID)
+        ON DELETE CASCADE,
+    FOREIGN KEY (Account_ID)
+        REFERENCES Account(Account_ID)
+        ON DELETE CASCADE,
+    PRIMARY KEY (Review_ID, Account_ID)
+);
+
+CREATE TABLE Shelves (
+    Shelf_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Name VARCHAR(255) NOT NULL,
+    Is_Default BOOLEAN NOT NULL DEFAULT FALSE,
+    Created_At TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    FOREIGN KEY (Account_ID)
+        REFERENCES Account(Account_ID)
+        ON DELETE CASCADE,
+    UNIQUE (Account_ID, Name)
+);
+
+CREATE TABLE Shelf_Books (
+    Shelf_ID INT NOT NULL,
+    isbn13 BIGINT NOT NULL,
+    Added_At TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    Date_Started DATE,
+    Date_Finished DATE,
+    FOREIGN KEY (Shelf_ID)
+        REFERENCES Shelves(Shelf_ID)
+        ON DELETE CASCADE,
+    FOREIGN KEY (isbn13)
+        REFERENCES Books(isbn13)
+        ON DELETE CASCADE,
+    PRIMARY KEY (Shelf_ID, isbn13)
+);
+
 COPY temp
 FROM '/docker-entrypoint-initdb.d/books.csv'
 DELIMITER ','
@@ -83,13 +249,76 @@ INSERT INTO Books (isbn13, publication_year, original_title, title, rating_avg,
 SELECT isbn13, publication_year, original_title, title, rating_avg, rating_count, rating_1_star, rating_2_star, rating_3_star, rating_4_star, rating_5_star, image_url, image_small_url
 FROM temp;
 
+-- Names are separated by ", " in books.csv, so trim them to avoid creating a second
+-- author for each name with a leading space
 INSERT INTO Author (Author_Name)
-SELECT DISTINCT unnest(string_to_array(authors, ','))
-FROM temp;
+SELECT DISTINCT TRIM(name)
+FROM temp
+CROSS JOIN LATERAL unnest(string_to_array(authors, ',')) AS name
+WHERE TRIM(name) <> '';
 
 INSERT INTO Books_Authors (isbn13, Author_ID)
-SELECT t.isbn13, a.Author_ID
+SELECT DISTINCT t.isbn13, a.Author_ID
 FROM temp t
-JOIN Author a ON a.Author_Name = ANY(string_to_array(t.authors, ','));
+CROSS JOIN LATERAL unnest(string_to_array(t.authors, ',')) AS name
+JOIN Author a ON a.Author_Name = TRIM(name);
+
+DROP TABLE IF EXISTS temp;
+
+-- Full-text search document for each book: title, original title and the names of
+-- its authors. Kept up to date by the triggers below.
+CREATE FUNCTION refresh_book_search_vector(target BIGINT) RETURNS VOID AS $$
+    UPDATE Books b SET search_vector =
+        setweight(to_tsvector('english', coalesce(b.title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(b.original_title, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce((
+            SELECT string_agg(a.Author_Name, ' ')
+            FROM Books_Authors ba
+            JOIN Author a ON ba.Author_ID = a.Author_ID
+            WHERE ba.isbn13 = b.isbn13
+        ), '')), 'C')
+    WHERE b.isbn13 = target;
+$$ LANGUAGE SQL;
+
+SELECT refresh_book_search_vector(isbn13) FROM Books;
+
+CREATE INDEX books_search_vector_idx ON Books USING GIN (search_vector);
+
+CREATE FUNCTION books_search_vector_trigger() RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_book_search_vector(NEW.isbn13);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER books_search_vector_update
+AFTER INSERT OR UPDATE OF title, original_title ON Books
+FOR EACH ROW EXECUTE FUNCTION books_search_vector_trigger();
+
+CREATE FUNCTION books_authors_search_vector_trigger() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM refresh_book_search_vector(OLD.isbn13);
+    ELSE
+        PERFORM refresh_book_search_vector(NEW.isbn13);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER books_authors_search_vector_update
+AFTER INSERT OR DELETE ON Books_Authors
+FOR EACH ROW EXECUTE FUNCTION books_authors_search_vector_trigger();
+
+CREATE FUNCTION author_search_vector_trigger() RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_book_search_vector(ba.isbn13)
+    FROM Books_Authors ba
+    WHERE ba.Author_ID = NEW.Author_ID;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
 
-DROP TABLE IF EXISTS temp;
\ No newline at end of file
+CREATE TRIGGER author_search_vector_update
+AFTER UPDATE OF Author_Name ON Author
+FOR EACH ROW EXECUTE FUNCTION author_search_vector_trigger();
@@ -0,0 +1,89 @@
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+import { AppError, NotFoundError } from '../models/error.model';
+import { errorFunctions } from '../utilities/errorUtils';
+
+/**
+ * @apiDefine ErrorEnvelope
+ * @apiError {String} code A machine-readable name for the kind of error, e.g.
+ * <code>NOT_FOUND</code>, <code>VALIDATION_FAILED</code> or <code>ALREADY_EXISTS</code>.
+ * @apiError {String} message What went wrong, as listed with the errors of each route.
+ * @apiError {Object} details Anything more about the error, or <code>null</code>.
+ * @apiError {String} requestId The id of the request, also sent as the
+ * <code>X-Request-Id</code> header. Quote it when contacting support.
+ */
+
+// ids sent by a client or proxy are only reused if they are safe to log and echo back
+const clientRequestId = /^[\w.:-]{1,128}$/;
+
+/**
+ * Gives every request an id, reusing the <code>X-Request-Id</code> header the client
+ * or a proxy sent, so that the logs and error responses for a request can be matched up.
+ * The id is kept in <code>response.locals.requestId</code> and sent back as the
+ * <code>X-Request-Id</code> header.
+ */
+export const assignRequestId = (
+    request: Request,
+    response: Response,
+    next: NextFunction
+) => {
+    const sent = request.get('X-Request-Id');
+    const requestId =
+        sent !== undefined && clientRequestId.test(sent) ? sent : randomUUID();
+    response.locals.requestId = requestId;
+    response.set('X-Request-Id', requestId);
+    next();
+};
+
+/**
+ * Reports requests that match no route in the same form as every other error.
+ */
+export const notFound = (
+    request: Request,
+    response: Response,
+    next: NextFunction
+) => {
+    next(
+        new NotFoundError('No route for ' + request.method + ' ' + request.path)
+    );
+};
+
+/**
+ * Sends every error passed to <code>next</code> as
+ * <code>{ code, message, details, requestId }</code>: application errors and the
+ * database errors the client caused with their own status and code, and anything else
+ * as a 500 that is logged with the request id.
+ */
+export const handleErrors = (
+    error,
+    request: Request,
+    response: Response,
+    // express only treats middleware with four parameters as an error handler
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    next: NextFunction
+) => {
+    const requestId: string = response.locals.requestId;
+    const known = errorFunctions.toAppError(error);
+    if (known == null) {
+        console.error(
+            `[${requestId}] Error on ${request.method} ${request.originalUrl}`
+        );
+        console.error(error);
+    }
+    const appError =
+        known ??
+        new AppError(500, 'INTERNAL', 'server error - contact support');
+
+    if (response.headersSent) {
+        // the response has started streaming, so the most that can be done is to end it
+        response.end();
+        return;
+    }
+    response.status(appError.status).send({
+        code: appError.code,
+        message: appError.message,
+        details: appError.details,
+        requestId,
+    });
+};
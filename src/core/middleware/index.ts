@@ -1,5 +1,20 @@
 import { checkToken } from './jwt';
 
+import { checkRole } from './roles';
+
 import { checkParamsIdToJwtId } from './verificationChecks';
 
-export { checkToken, checkParamsIdToJwtId };
+import { validate, checkSchema } from './validation';
+
+import { assignRequestId, notFound, handleErrors } from './errors';
+
+export {
+    checkToken,
+    checkRole,
+    checkParamsIdToJwtId,
+    validate,
+    checkSchema,
+    assignRequestId,
+    notFound,
+    handleErrors,
+};
@@ -1,12 +1,23 @@
 import jwt, { JwtPayload } from 'jsonwebtoken';
 import { Response, NextFunction } from 'express';
 
+import { ForbiddenError, UnauthorizedError } from '../models/error.model';
 import { IJwtRequest } from '../models/JwtRequest.model';
+import { pool } from '../utilities/sql_conn';
 
 const config = {
     secret: process.env.JSON_WEB_TOKEN,
+    // 'all' to require a verified email address on every request with a token,
+    // 'writes' on every request but GET, HEAD and OPTIONS, unset to never require it
+    requireVerifiedEmail: process.env.REQUIRE_VERIFIED_EMAIL,
 };
 
+const readMethods = ['GET', 'HEAD', 'OPTIONS'];
+
+const requiresVerifiedEmail = (method: string): boolean =>
+    config.requireVerifiedEmail == 'all' ||
+    (config.requireVerifiedEmail == 'writes' && !readMethods.includes(method));
+
 export const checkToken = (
     request: IJwtRequest,
     response: Response,
@@ -24,19 +35,34 @@ export const checkToken = (
 
         jwt.verify(token, config.secret, (err, decoded: JwtPayload) => {
             if (err) {
-                return response.status(403).json({
-                    success: false,
-                    message: 'Token is not valid',
-                });
-            } else {
-                request.claims = decoded;
-                next();
+                return next(new ForbiddenError('Token is not valid'));
             }
+            // reject tokens issued before the account last revoked its tokens. The
+            // comparison is made in SQL so it does not depend on the time zone of Node
+            pool.query(
+                `SELECT email_verified_at,
+                    FLOOR(EXTRACT(EPOCH FROM tokens_revoked_at)) > $2 AS revoked
+                FROM Account WHERE account_id = $1`,
+                [decoded.id, decoded.iat]
+            )
+                .then((result) => {
+                    if (result.rowCount == 0 || result.rows[0].revoked) {
+                        next(new ForbiddenError('Token is not valid'));
+                    } else if (
+                        requiresVerifiedEmail(request.method) &&
+                        result.rows[0].email_verified_at == null
+                    ) {
+                        next(
+                            new ForbiddenError('Email address is not verified')
+                        );
+                    } else {
+                        request.claims = decoded;
+                        next();
+                    }
+                })
+                .catch((error) => next(error));
         });
     } else {
-        return response.status(401).json({
-            success: false,
-            message: 'Auth token is not supplied',
-        });
+        return next(new UnauthorizedError('Auth token is not supplied'));
     }
 };
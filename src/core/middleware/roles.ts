@@ -0,0 +1,39 @@
+import { Response, NextFunction } from 'express';
+
+import { ForbiddenError } from '../models/error.model';
+import { IJwtRequest } from '../models/JwtRequest.model';
+import { Role } from '../models/role.model';
+
+/**
+ * @apiDefine editor Editor
+ * Requires a token for an account with the editor (2) or admin (3) role.
+ */
+
+/**
+ * @apiDefine admin Admin
+ * Requires a token for an account with the admin (3) role.
+ */
+
+/**
+ * @apiDefine InsufficientRole
+ * @apiError (403: Insufficient role) {String} message "Insufficient role for this request"
+ * @apiError (403: Insufficient role) {String} code <code>FORBIDDEN</code>
+ */
+
+/**
+ * Creates a middleware function that only lets requests through when the role in
+ * their token is at least <code>minimum</code>. Must run after checkToken. Tokens
+ * issued before roles existed carry no role and are treated as readers.
+ *
+ * @param {Role} minimum the lowest role allowed through
+ */
+export const checkRole =
+    (minimum: Role) =>
+    (request: IJwtRequest, response: Response, next: NextFunction) => {
+        const role: number = request.claims.role ?? Role.Reader;
+        if (role >= minimum) {
+            next();
+        } else {
+            next(new ForbiddenError('Insufficient role for this request'));
+        }
+    };
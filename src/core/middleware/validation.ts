@@ -0,0 +1,202 @@
+import { NextFunction, Request, Response } from 'express';
+
+import {
+    IRequestSchemas,
+    IRule,
+    ISchema,
+    IViolation,
+    RequestLocation,
+} from '../models/validation.model';
+import { ValidationError } from '../models/error.model';
+import { isbnFunctions } from '../utilities/isbnUtils';
+import { validationFunctions } from '../utilities/validationUtils';
+
+/**
+ * @apiDefine ValidationErrors
+ * @apiError (400: Invalid request) {String} code <code>VALIDATION_FAILED</code>
+ * @apiError (400: Invalid request) {String} message The message of the first problem found
+ * with the request, as listed with the errors of each route.
+ * @apiError (400: Invalid request) {Object[]} details Every problem found with the request.
+ * @apiError (400: Invalid request) {String} details.location Where the problem is: one of
+ * <code>params</code>, <code>query</code> or <code>body</code>.
+ * @apiError (400: Invalid request) {String} details.field The path to the field with the
+ * problem, e.g. <code>entry.ratings.average</code>.
+ * @apiError (400: Invalid request) {String} details.message The problem with the field.
+ * @apiError (400: Invalid request) {String} requestId The id of the request.
+ */
+
+/**
+ * Checks one value against its rule.
+ *
+ * @returns the value coerced to the type of the rule, or the violations if it breaks the rule
+ */
+function checkRule(
+    rule: IRule,
+    value,
+    location: RequestLocation,
+    field: string
+): { value?; violations: IViolation[] } {
+    const violation = (message: string) => ({
+        violations: [{ location, field, message }],
+    });
+
+    if (value === null && rule.nullable) {
+        return { value: null, violations: [] };
+    }
+    if (value === undefined || value === null || value === '') {
+        if (rule.optional) {
+            return {
+                value: 'default' in rule ? rule.default : undefined,
+                violations: [],
+            };
+        }
+        return violation(rule.message);
+    }
+    const invalid = () => violation(rule.invalidMessage ?? rule.message);
+
+    switch (rule.type) {
+        case 'string': {
+            if (!validationFunctions.isStringProvided(value)) {
+                return violation(rule.message);
+            }
+            if (
+                (rule.oneOf && !rule.oneOf.includes(value)) ||
+                (rule.check && !rule.check(value))
+            ) {
+                return invalid();
+            }
+            return { value, violations: [] };
+        }
+        case 'number':
+        case 'integer': {
+            // params, query strings and some clients send numbers as strings
+            if (
+                typeof value == 'boolean' ||
+                !validationFunctions.isNumberProvided(value)
+            ) {
+                return violation(rule.message);
+            }
+            const number = Number(value);
+            if (rule.type == 'integer' && !Number.isInteger(number)) {
+                return violation(rule.message);
+            }
+            if (
+                (rule.min !== undefined && number < rule.min) ||
+                (rule.max !== undefined && number > rule.max) ||
+                (rule.check && !rule.check(number))
+            ) {
+                return invalid();
+            }
+            return { value: number, violations: [] };
+        }
+        case 'isbn': {
+            const isbn13 = rule.catalog
+                ? isbnFunctions.toCatalogIsbn(value)
+                : isbnFunctions.toIsbn13(value);
+            return isbn13 == null
+                ? invalid()
+                : { value: isbn13, violations: [] };
+        }
+        case 'boolean': {
+            if (value === true || value === 'true') {
+                return { value: true, violations: [] };
+            } else if (value === false || value === 'false') {
+                return { value: false, violations: [] };
+            }
+            return violation(rule.message);
+        }
+        case 'object': {
+            if (typeof value != 'object' || Array.isArray(value)) {
+                return violation(rule.message);
+            }
+            return checkSchema(rule.fields, value, location, field + '.');
+        }
+        case 'array': {
+            if (!Array.isArray(value)) {
+                return violation(rule.message);
+            }
+            if (rule.minItems !== undefined && value.length < rule.minItems) {
+                return invalid();
+            }
+            const items = value.map((item, index) =>
+                checkRule(rule.items, item, location, `${field}[${index}]`)
+            );
+            return {
+                value: items.map((item) => item.value),
+                violations: [].concat(...items.map((item) => item.violations)),
+            };
+        }
+    }
+}
+
+/**
+ * Checks every field of a schema, collecting all of the violations rather than stopping
+ * at the first. Fields not in the schema are dropped.
+ *
+ * @param {ISchema} schema the rules for each field
+ * @param source the object holding the fields
+ * @param {RequestLocation} location the part of the request the fields are in
+ * @param {string} prefix the path to the object, for nested objects
+ * @returns the fields coerced to the types of their rules, and the violations
+ */
+export function checkSchema(
+    schema: ISchema,
+    source,
+    location: RequestLocation,
+    prefix = ''
+): { value; violations: IViolation[] } {
+    const value = {};
+    const violations: IViolation[] = [];
+    for (const [name, rule] of Object.entries(schema)) {
+        const checked = checkRule(
+            rule,
+            source?.[name],
+            location,
+            prefix + name
+        );
+        violations.push(...checked.violations);
+        if (checked.value !== undefined) {
+            value[name] = checked.value;
+        }
+    }
+    return { value, violations };
+}
+
+/**
+ * Creates a middleware function that checks the params, query and body of a request
+ * against schemas. Every violation is passed on together as one ValidationError, whose
+ * <code>message</code> is that of the first violation and whose <code>details</code>
+ * are all of them: <code>[{ location, field, message }]</code>
+ *
+ * Otherwise the values, coerced to the declared types, are put on
+ * <code>request.valid</code> for the handlers after it; see IValidRequest.
+ *
+ * @param {IRequestSchemas} schemas the rules for each part of the request
+ */
+export const validate =
+    (schemas: IRequestSchemas) =>
+    (request: Request, response: Response, next: NextFunction) => {
+        const valid = { params: {}, query: {}, body: {} };
+        let errors: IViolation[] = [];
+        for (const location of ['params', 'query', 'body'] as const) {
+            if (schemas[location] !== undefined) {
+                const checked = checkSchema(
+                    schemas[location],
+                    request[location],
+                    location
+                );
+                valid[location] = checked.value;
+                errors.push(...checked.violations);
+            }
+        }
+        if (errors.length == 0 && schemas.refine !== undefined) {
+            errors = schemas.refine(valid);
+        }
+
+        if (errors.length > 0) {
+            next(new ValidationError(errors));
+        } else {
+            (request as Request & { valid }).valid = valid;
+            next();
+        }
+    };
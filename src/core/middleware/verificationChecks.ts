@@ -1,4 +1,5 @@
 import { NextFunction, Response } from 'express';
+import { BadRequestError } from '../models/error.model';
 import { IJwtRequest } from '../models/JwtRequest.model';
 
 export const checkParamsIdToJwtId = (
@@ -6,10 +7,10 @@ export const checkParamsIdToJwtId = (
     response: Response,
     next: NextFunction
 ) => {
-    if (request.params.id !== request.claims.id) {
-        response.status(400).send({
-            message: 'Credentials do not match for this user.',
-        });
+    // route params are strings while the id claim is a number
+    if (Number(request.params.id) !== request.claims.id) {
+        next(new BadRequestError('Credentials do not match for this user.'));
+    } else {
+        next();
     }
-    next();
 };
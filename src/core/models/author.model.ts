@@ -0,0 +1,4 @@
+export interface IAuthor {
+    id: number;
+    name: string;
+}
@@ -0,0 +1,28 @@
+import { IAuthor } from './author.model';
+
+export interface IRatings {
+    average: number;
+    count: number;
+    rating_1: number;
+    rating_2: number;
+    rating_3: number;
+    rating_4: number;
+    rating_5: number;
+}
+
+export interface IUrlIcon {
+    large: string;
+    small: string;
+}
+
+export interface IBook {
+    isbn13: number;
+    authors: string;
+    publication: number;
+    original_title: string;
+    title: string;
+    ratings: IRatings;
+    icons: IUrlIcon;
+    // the authors with their ids, when the query that read the book includes them
+    author_list?: IAuthor[];
+}
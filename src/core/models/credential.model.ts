@@ -0,0 +1,15 @@
+// A stored password credential. Legacy credentials are a single 'sha256' of the
+// password and salt and carry no params.
+export interface ICredential {
+    saltedHash: string;
+    salt: string;
+    algorithm: 'sha256' | 'scrypt';
+    params: IScryptParams | null;
+}
+
+export interface IScryptParams {
+    N: number;
+    r: number;
+    p: number;
+    keylen: number;
+}
@@ -0,0 +1,9 @@
+export type CursorSort = 'isbn13' | 'rating';
+
+export interface ICursor {
+    sort: CursorSort;
+    order: 'ASC' | 'DESC';
+    direction: 'next' | 'prev';
+    isbn13: number;
+    rating?: number;
+}
@@ -0,0 +1,71 @@
+import { IViolation } from './validation.model';
+
+/**
+ * An error to report to the client. Pass it to <code>next</code> and the error handler
+ * sends it with its status as <code>{ code, message, details, requestId }</code>.
+ */
+export class AppError extends Error {
+    // the HTTP status of the response
+    readonly status: number;
+    // a machine-readable name for the kind of error, e.g. NOT_FOUND
+    readonly code: string;
+    // anything more the client needs to act on the error, or null
+    readonly details: unknown;
+
+    constructor(
+        status: number,
+        code: string,
+        message: string,
+        details: unknown = null
+    ) {
+        super(message);
+        this.name = new.target.name;
+        this.status = status;
+        this.code = code;
+        this.details = details;
+    }
+}
+
+export class BadRequestError extends AppError {
+    constructor(message: string, details?: unknown) {
+        super(400, 'BAD_REQUEST', message, details);
+    }
+}
+
+// a request breaking the schemas of validate, with every violation as its details
+export class ValidationError extends AppError {
+    constructor(violations: IViolation[]) {
+        super(400, 'VALIDATION_FAILED', violations[0].message, violations);
+    }
+}
+
+// sent as a 400 as the routes always have, rather than a 409
+export class AlreadyExistsError extends AppError {
+    constructor(message: string, details?: unknown) {
+        super(400, 'ALREADY_EXISTS', message, details);
+    }
+}
+
+export class UnauthorizedError extends AppError {
+    constructor(message: string, details?: unknown) {
+        super(401, 'UNAUTHORIZED', message, details);
+    }
+}
+
+export class ForbiddenError extends AppError {
+    constructor(message: string, details?: unknown) {
+        super(403, 'FORBIDDEN', message, details);
+    }
+}
+
+export class NotFoundError extends AppError {
+    constructor(message: string, details?: unknown) {
+        super(404, 'NOT_FOUND', message, details);
+    }
+}
+
+export class TooManyRequestsError extends AppError {
+    constructor(message: string, details?: unknown) {
+        super(429, 'TOO_MANY_REQUESTS', message, details);
+    }
+}
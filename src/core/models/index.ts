@@ -1,4 +1,54 @@
 import { IJwtRequest } from './JwtRequest.model';
 import { IUser } from './user.model';
+import { ICursor, CursorSort } from './cursor.model';
+import { IBook, IRatings, IUrlIcon } from './book.model';
+import { IAuthor } from './author.model';
+import { Role } from './role.model';
+import { ICredential, IScryptParams } from './credential.model';
+import { IMail, IMailTransport } from './mail.model';
+import {
+    IRule,
+    ISchema,
+    IRequestSchemas,
+    IViolation,
+    IValidRequest,
+} from './validation.model';
+import {
+    AppError,
+    BadRequestError,
+    ValidationError,
+    AlreadyExistsError,
+    UnauthorizedError,
+    ForbiddenError,
+    NotFoundError,
+    TooManyRequestsError,
+} from './error.model';
 
-export { IJwtRequest, IUser };
+export {
+    IJwtRequest,
+    IUser,
+    ICursor,
+    CursorSort,
+    IBook,
+    IRatings,
+    IUrlIcon,
+    IAuthor,
+    Role,
+    ICredential,
+    IScryptParams,
+    IMail,
+    IMailTransport,
+    IRule,
+    ISchema,
+    IRequestSchemas,
+    IViolation,
+    IValidRequest,
+    AppError,
+    BadRequestError,
+    ValidationError,
+    AlreadyExistsError,
+    UnauthorizedError,
+    ForbiddenError,
+    NotFoundError,
+    TooManyRequestsError,
+};
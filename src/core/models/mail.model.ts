@@ -0,0 +1,10 @@
+export interface IMail {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+// Delivers mail. Swap the transport to send through a real mail provider.
+export interface IMailTransport {
+    send(mail: IMail): Promise<void>;
+}
@@ -0,0 +1,6 @@
+// Roles are ordered: each role may do everything the roles below it may do
+export enum Role {
+    Reader = 1,
+    Editor = 2,
+    Admin = 3,
+}
@@ -1,9 +1,15 @@
+import { Role } from './role.model';
+
 export interface IUser {
     id: number;
     email: string;
     firstname: string;
     lastname: string | null;
     username: string | null;
-    phone: number | null;
+    phone: string | null;
+    role: Role;
+    verified: boolean;
+    twoFactor: boolean;
+    lastLogin: Date | null;
     createDt?: Date | null;
 }
@@ -0,0 +1,121 @@
+import { IJwtRequest } from './JwtRequest.model';
+
+interface IBaseRule {
+    // sent when the value is missing or of the wrong type
+    message: string;
+    // sent when the value is of the right type but breaks the rule; defaults to message
+    invalidMessage?: string;
+    optional?: boolean;
+    // also accept null, passed on as null, e.g. to clear a value
+    nullable?: boolean;
+}
+
+export interface IStringRule extends IBaseRule {
+    type: 'string';
+    oneOf?: readonly string[];
+    check?: (value: string) => boolean;
+    default?: string;
+}
+
+export interface INumberRule extends IBaseRule {
+    // integer also accepts numbers with no fractional part only
+    type: 'number' | 'integer';
+    min?: number;
+    max?: number;
+    check?: (value: number) => boolean;
+    default?: number;
+}
+
+export interface IBooleanRule extends IBaseRule {
+    type: 'boolean';
+    default?: boolean;
+}
+
+// an ISBN-10 or ISBN-13, hyphens allowed, read into the ISBN-13 it is stored under
+export interface IIsbnRule extends IBaseRule {
+    type: 'isbn';
+    // also accept the rounded ISBN-13s the books loaded from books.csv are stored under
+    catalog?: boolean;
+}
+
+export interface IObjectRule extends IBaseRule {
+    type: 'object';
+    fields: ISchema;
+}
+
+export interface IArrayRule extends IBaseRule {
+    type: 'array';
+    // the rule every item must meet
+    items: IRule;
+    minItems?: number;
+}
+
+export type IRule =
+    | IStringRule
+    | INumberRule
+    | IBooleanRule
+    | IIsbnRule
+    | IObjectRule
+    | IArrayRule;
+
+export interface ISchema {
+    [field: string]: IRule;
+}
+
+export type RequestLocation = 'params' | 'query' | 'body';
+
+export interface IViolation {
+    location: RequestLocation;
+    // the path to the field, e.g. entry.ratings.average
+    field: string;
+    message: string;
+}
+
+/*
+ * The values a schema lets through, typed from the schema: a string rule gives a string,
+ * an object rule an object of its fields, an array rule an array of its items, an optional
+ * rule without a default may be undefined and a nullable rule may be null.
+ */
+type RuleValue<R> = R extends { type: 'string' }
+    ? string
+    : R extends { type: 'number' | 'integer' | 'isbn' }
+      ? number
+      : R extends { type: 'boolean' }
+        ? boolean
+        : R extends { type: 'object'; fields: infer F }
+          ? SchemaValues<F>
+          : R extends { type: 'array'; items: infer I }
+            ? RuleValue<I>[]
+            : never;
+
+type MaybeMissing<R> = R extends { optional: true }
+    ? R extends { default: unknown }
+        ? never
+        : undefined
+    : never;
+
+type MaybeNull<R> = R extends { nullable: true } ? null : never;
+
+export type SchemaValues<S> = {
+    [K in keyof S]: RuleValue<S[K]> | MaybeMissing<S[K]> | MaybeNull<S[K]>;
+};
+
+export type ValidValues<S extends IRequestSchemas> = {
+    [L in RequestLocation]: SchemaValues<S[L]>;
+};
+
+export interface IRequestSchemas {
+    params?: ISchema;
+    query?: ISchema;
+    body?: ISchema;
+    // checks across fields, run once every field is valid
+    refine?: (valid) => IViolation[];
+}
+
+/**
+ * A request that passed validate(schemas), holding its values coerced to the types the
+ * schemas declare.
+ */
+export interface IValidRequest<S extends IRequestSchemas> extends IJwtRequest {
+    valid: ValidValues<S>;
+}
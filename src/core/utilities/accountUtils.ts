@@ -0,0 +1,24 @@
+import { IUser } from '../models';
+
+/**
+ * Maps a row of the Account table to a user.
+ * @param row a row of the Account table
+ */
+const toUser = (row): IUser => ({
+    id: row.account_id,
+    email: row.email,
+    firstname: row.firstname,
+    lastname: row.lastname,
+    username: row.username,
+    phone: row.phone,
+    role: row.account_role,
+    verified: row.email_verified_at != null,
+    twoFactor: row.totp_enabled_at != null,
+    lastLogin: row.last_login_at,
+});
+
+const accountFunctions = {
+    toUser,
+};
+
+export { accountFunctions };
@@ -0,0 +1,94 @@
+import { PoolClient } from 'pg';
+
+import { IAuthor } from '../models';
+
+/**
+ * Converts a row of the Author table into the author object returned by the API.
+ *
+ * @param row the database row to convert
+ */
+function toAuthor(row): IAuthor {
+    return {
+        id: row.author_id,
+        name: row.author_name,
+    };
+}
+
+/**
+ * Tidies an author name before it is stored: Unicode is normalized, and spaces are trimmed
+ * from the ends and collapsed to one between words.
+ *
+ * @param {string} name the name to tidy
+ */
+const normalizeAuthorName = (name: string): string =>
+    name.normalize('NFC').trim().replace(/\s+/g, ' ');
+
+/**
+ * Finds the author with a name, adding the author if there is none. A name that differs
+ * from an existing author only in case, spacing or punctuation (the same
+ * <code>author_name_key</code>) finds that author rather than adding a variant.
+ *
+ * @param {PoolClient} client the client holding the open transaction
+ * @param {string} name the name of the author, already normalized
+ * @returns the id of the author
+ */
+async function findOrCreateAuthor(
+    client: PoolClient,
+    name: string
+): Promise<number> {
+    const existing = await client.query(
+        `SELECT author_id FROM Author
+        WHERE author_name_key(author_name) = author_name_key($1)
+        ORDER BY author_name = $1 DESC, author_id
+        LIMIT 1`,
+        [name]
+    );
+    if (existing.rowCount == 1) {
+        return existing.rows[0].author_id;
+    }
+    const inserted = await client.query(
+        `INSERT INTO Author (author_name) VALUES ($1)
+        ON CONFLICT (author_name) DO UPDATE SET author_name = EXCLUDED.author_name
+        RETURNING author_id`,
+        [name]
+    );
+    return inserted.rows[0].author_id;
+}
+
+/**
+ * Merges authors into another: every book of the merged authors is linked to the target
+ * author instead, and the merged authors are deleted. Run it inside a transaction so the
+ * books are never left without their authors.
+ *
+ * @param {PoolClient} client the client holding the open transaction
+ * @param {number} targetId the author to keep
+ * @param {number[]} sourceIds the authors to merge into the target
+ * @returns the ids of the authors that were merged, which excludes ids with no author
+ */
+async function mergeAuthors(
+    client: PoolClient,
+    targetId: number,
+    sourceIds: number[]
+): Promise<number[]> {
+    await client.query(
+        `INSERT INTO Books_Authors (isbn13, author_id)
+        SELECT isbn13, $1 FROM Books_Authors WHERE author_id = ANY($2::INT[])
+        ON CONFLICT (isbn13, author_id) DO NOTHING`,
+        [targetId, sourceIds]
+    );
+    // deleting the authors deletes their links to the books too
+    const deleted = await client.query(
+        'DELETE FROM Author WHERE author_id = ANY($1::INT[]) AND author_id <> $2 RETURNING author_id',
+        [sourceIds, targetId]
+    );
+    return deleted.rows.map((row) => row.author_id);
+}
+
+const authorFunctions = {
+    toAuthor,
+    normalizeAuthorName,
+    findOrCreateAuthor,
+    mergeAuthors,
+};
+
+export { authorFunctions };
@@ -0,0 +1,275 @@
+import { PoolClient } from 'pg';
+
+import { IBook, IRatings, ISchema, IUrlIcon } from '../models';
+import { authorFunctions } from './authorUtils';
+
+/**
+ * Converts a row of the Books table, with its authors aggregated into a comma-separated
+ * <code>authors</code> column, into the book object returned by the API. When the row
+ * also has an <code>author_list</code> column (see <code>authorListColumn</code>), the
+ * book includes its authors as objects with their ids too.
+ *
+ * @param row the database row to convert
+ * @returns the book object for the row
+ */
+function toBook(row): IBook {
+    const sanitizedRatings: IRatings = {
+        average: row.rating_avg,
+        count: row.rating_count,
+        rating_1: row.rating_1_star,
+        rating_2: row.rating_2_star,
+        rating_3: row.rating_3_star,
+        rating_4: row.rating_4_star,
+        rating_5: row.rating_5_star,
+    };
+    const sanitizedUrls: IUrlIcon = {
+        large: row.image_url,
+        small: row.image_small_url,
+    };
+
+    const book: IBook = {
+        isbn13: Number(row.isbn13),
+        authors: row.authors,
+        publication: row.publication_year,
+        original_title: row.original_title,
+        title: row.title,
+        ratings: sanitizedRatings,
+        icons: sanitizedUrls,
+    };
+    if (row.author_list !== undefined) {
+        book.author_list = row.author_list ?? [];
+    }
+    return book;
+}
+
+/*
+ * A select list column aggregating the authors joined as <code>a</code> into the
+ * <code>author_list</code> read by toBook.
+ */
+const authorListColumn = `COALESCE(
+    JSON_AGG(JSON_BUILD_OBJECT('id', a.author_id, 'name', a.author_name) ORDER BY a.author_name)
+        FILTER (WHERE a.author_id IS NOT NULL),
+    '[]'
+) AS author_list`;
+
+/**
+ * An expression for the ISBN a book is stored under, given the ISBNs it may be stored
+ * under as an array parameter (see isbnFunctions.catalogIsbns), preferring the earliest.
+ * When no book matches it is the first of them, so an insert referencing it still breaks
+ * the foreign key to Books.
+ *
+ * @param {string} param the placeholder of the array, e.g. <code>$1</code>
+ */
+const storedIsbn = (param: string): string => `COALESCE(
+    (SELECT isbn13 FROM Books WHERE isbn13 = ANY(${param}::BIGINT[])
+        ORDER BY array_position(${param}::BIGINT[], isbn13) LIMIT 1),
+    (${param}::BIGINT[])[1]
+)`;
+
+// the ISBN in the path of the routes about one book, passed to the query as catalogIsbns
+const isbnParams = {
+    isbn: {
+        type: 'isbn',
+        catalog: true,
+        message: 'Invalid ISBN - please refer to documentation',
+    },
+} satisfies ISchema;
+
+/**
+ * Splits a comma-separated list of author names, normalizing each name and dropping
+ * empty names.
+ *
+ * @param {string} authors the list to split
+ */
+const splitAuthors = (authors: string): string[] =>
+    authors
+        .split(',')
+        .map(authorFunctions.normalizeAuthorName)
+        .filter((author) => author.length > 0);
+
+/**
+ * Replaces the authors of a book, adding any author not yet in the Author table. A name
+ * that is only a variant of an existing author is linked to that author.
+ *
+ * @param {PoolClient} client the client holding the open transaction
+ * @param isbn13 the book to link the authors to
+ * @param {string} authors a comma-separated list of author names
+ */
+async function linkAuthors(client: PoolClient, isbn13, authors: string) {
+    const names = splitAuthors(authors);
+
+    await client.query('DELETE FROM Books_Authors WHERE isbn13 = $1', [isbn13]);
+    for (const name of names) {
+        const authorId = await authorFunctions.findOrCreateAuthor(client, name);
+        await client.query(
+            `INSERT INTO Books_Authors (isbn13, author_id)
+            VALUES ($1, $2)
+            ON CONFLICT (isbn13, author_id) DO NOTHING;`,
+            [isbn13, authorId]
+        );
+    }
+}
+
+/**
+ * Reads a book with its authors.
+ *
+ * @param {PoolClient} client the client holding the open transaction
+ * @param isbn13 the book to read
+ * @returns the book, or undefined if there is no book with the ISBN
+ */
+async function selectBook(
+    client: PoolClient,
+    isbn13
+): Promise<IBook | undefined> {
+    const result = await client.query(
+        `SELECT
+            b.isbn13, b.title, b.original_title, b.publication_year, b.rating_avg, b.rating_count,
+            b.rating_1_star, b.rating_2_star, b.rating_3_star, b.rating_4_star, b.rating_5_star,
+            b.image_url, b.image_small_url,
+            string_agg(a.Author_name, ', ' ORDER BY a.Author_name) AS authors,
+            ${authorListColumn}
+        FROM Books b
+        LEFT JOIN Books_Authors ba ON b.isbn13 = ba.isbn13
+        LEFT JOIN Author a ON ba.Author_id = a.Author_id
+        WHERE b.isbn13 = $1
+        GROUP BY b.id;`,
+        [isbn13]
+    );
+    return result.rowCount == 0 ? undefined : toBook(result.rows[0]);
+}
+
+/**
+ * Inserts a book and links its authors. Run it inside a transaction so a failure part
+ * way through leaves no book without its authors.
+ *
+ * @param {PoolClient} client the client holding the open transaction
+ * @param {IBook} book the book to insert
+ * @returns the book as stored
+ */
+async function createBook(client: PoolClient, book: IBook): Promise<IBook> {
+    await client.query(
+        'INSERT INTO Books (isbn13, publication_year, original_title, title, rating_avg, rating_count, rating_1_star, rating_2_star, rating_3_star, rating_4_star, rating_5_star, image_url, image_small_url) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)',
+        [
+            book.isbn13,
+            book.publication,
+            book.original_title,
+            book.title,
+            book.ratings.average,
+            book.ratings.count,
+            book.ratings.rating_1,
+            book.ratings.rating_2,
+            book.ratings.rating_3,
+            book.ratings.rating_4,
+            book.ratings.rating_5,
+            book.icons.large,
+            book.icons.small,
+        ]
+    );
+    await linkAuthors(client, book.isbn13, book.authors);
+    return selectBook(client, book.isbn13);
+}
+
+/**
+ * Inserts books, or updates them where a book with the same ISBN exists, and replaces
+ * their authors. Run it inside a transaction so a failure part way through leaves no book
+ * without its authors.
+ *
+ * @param {PoolClient} client the client holding the open transaction
+ * @param {IBook[]} books the books to write, each with a different ISBN
+ * @returns the ISBNs that were inserted rather than updated
+ */
+async function upsertBooks(
+    client: PoolClient,
+    books: IBook[]
+): Promise<Set<number>> {
+    const isbns = books.map((book) => book.isbn13);
+    const result = await client.query(
+        `INSERT INTO Books (isbn13, publication_year, original_title, title, rating_avg,
+            rating_count, rating_1_star, rating_2_star, rating_3_star, rating_4_star,
+            rating_5_star, image_url, image_small_url)
+        SELECT * FROM UNNEST($1::BIGINT[], $2::INT[], $3::TEXT[], $4::TEXT[], $5::FLOAT[],
+            $6::INT[], $7::INT[], $8::INT[], $9::INT[], $10::INT[], $11::INT[], $12::TEXT[],
+            $13::TEXT[])
+        ON CONFLICT (isbn13) DO UPDATE SET
+            publication_year = EXCLUDED.publication_year,
+            original_title = EXCLUDED.original_title,
+            title = EXCLUDED.title,
+            rating_avg = EXCLUDED.rating_avg,
+            rating_count = EXCLUDED.rating_count,
+            rating_1_star = EXCLUDED.rating_1_star,
+            rating_2_star = EXCLUDED.rating_2_star,
+            rating_3_star = EXCLUDED.rating_3_star,
+            rating_4_star = EXCLUDED.rating_4_star,
+            rating_5_star = EXCLUDED.rating_5_star,
+            image_url = EXCLUDED.image_url,
+            image_small_url = EXCLUDED.image_small_url
+        RETURNING isbn13, (xmax = 0) AS inserted`,
+        [
+            isbns,
+            books.map((book) => book.publication),
+            books.map((book) => book.original_title),
+            books.map((book) => book.title),
+            books.map((book) => book.ratings.average),
+            books.map((book) => book.ratings.count),
+            books.map((book) => book.ratings.rating_1),
+            books.map((book) => book.ratings.rating_2),
+            books.map((book) => book.ratings.rating_3),
+            books.map((book) => book.ratings.rating_4),
+            books.map((book) => book.ratings.rating_5),
+            books.map((book) => book.icons.large),
+            books.map((book) => book.icons.small),
+        ]
+    );
+
+    // one [isbn, author] pair per author of each book
+    const pairs = books.flatMap((book) =>
+        splitAuthors(book.authors).map((name) => [book.isbn13, name])
+    );
+    const names = pairs.map(([, name]) => name);
+    await client.query(
+        'DELETE FROM Books_Authors WHERE isbn13 = ANY($1::BIGINT[])',
+        [isbns]
+    );
+    // as in linkAuthors, a variant of an existing author name links to that author
+    await client.query(
+        `INSERT INTO Author (author_name)
+        SELECT DISTINCT ON (author_name_key(name)) name
+        FROM UNNEST($1::TEXT[]) AS name
+        WHERE NOT EXISTS (
+            SELECT 1 FROM Author WHERE author_name_key(author_name) = author_name_key(name)
+        )
+        ON CONFLICT (author_name) DO NOTHING`,
+        [names]
+    );
+    await client.query(
+        `INSERT INTO Books_Authors (isbn13, author_id)
+        SELECT DISTINCT ON (pairs.isbn13, author_name_key(pairs.author_name))
+            pairs.isbn13, Author.author_id
+        FROM UNNEST($1::BIGINT[], $2::TEXT[]) AS pairs (isbn13, author_name)
+        INNER JOIN Author
+            ON author_name_key(Author.author_name) = author_name_key(pairs.author_name)
+        ORDER BY pairs.isbn13, author_name_key(pairs.author_name),
+            Author.author_name = pairs.author_name DESC, Author.author_id
+        ON CONFLICT (isbn13, author_id) DO NOTHING`,
+        [pairs.map(([isbn13]) => isbn13), names]
+    );
+
+    return new Set(
+        result.rows
+            .filter((row) => row.inserted)
+            .map((row) => Number(row.isbn13))
+    );
+}
+
+const bookFunctions = {
+    authorListColumn,
+    storedIsbn,
+    isbnParams,
+    toBook,
+    linkAuthors,
+    selectBook,
+    createBook,
+    upsertBooks,
+};
+
+export { bookFunctions };
@@ -1,9 +1,22 @@
-//We use this create the SHA256 hash
+//We use this create the scrypt and legacy SHA256 hashes
 import crypto from 'crypto';
+import { Pool, PoolClient } from 'pg';
+
+import { ICredential, IScryptParams } from '../models';
+import { pool } from './sql_conn';
+
+// Parameters for new credentials. Raising them upgrades existing credentials the next
+// time their owner signs in.
+const scryptParams: IScryptParams = {
+    N: 32768,
+    r: 8,
+    p: 1,
+    keylen: 64,
+};
 
 /**
- * Creates a salted and hashed string of hexadecimal characters. Used to encrypt
- * "safely" store user passwords.
+ * Creates a salted and hashed string of hexadecimal characters using a single SHA256.
+ * Only used to check legacy credentials; new passwords are hashed with scrypt.
  * @param {string} pw the password to hash
  * @param {string} salt the salt to use when hashing
  */
@@ -20,6 +33,124 @@ const generateHash = (pw: string, salt: string) =>
  */
 const generateSalt = (size: number) => crypto.randomBytes(size).toString('hex');
 
-const credentialingFunctions = { generateHash, generateSalt };
+/**
+ * Derives a key from a password with scrypt.
+ * @param {string} pw the password to hash
+ * @param {string} salt the salt to use when hashing
+ * @param {IScryptParams} params the scrypt cost parameters
+ * @returns the derived key as a string of hexadecimal characters
+ */
+const scryptHash = (pw: string, salt: string, params: IScryptParams) =>
+    new Promise<string>((resolve, reject) =>
+        crypto.scrypt(
+            pw,
+            salt,
+            params.keylen,
+            {
+                N: params.N,
+                r: params.r,
+                p: params.p,
+                maxmem: 256 * params.N * params.r,
+            },
+            (err, key) => (err ? reject(err) : resolve(key.toString('hex')))
+        )
+    );
+
+/**
+ * Creates a new credential for a password with the current scrypt parameters.
+ * @param {string} pw the password to hash
+ */
+async function hashPassword(pw: string): Promise<ICredential> {
+    const salt = generateSalt(32);
+    return {
+        saltedHash: await scryptHash(pw, salt, scryptParams),
+        salt,
+        algorithm: 'scrypt',
+        params: { ...scryptParams },
+    };
+}
+
+/**
+ * Checks a password against a stored credential of any algorithm.
+ * @param {string} pw the password provided by the user
+ * @param {ICredential} credential the credential stored for the account
+ * @returns true when the password matches the credential
+ */
+async function verifyPassword(
+    pw: string,
+    credential: ICredential
+): Promise<boolean> {
+    const provided =
+        credential.algorithm == 'scrypt'
+            ? await scryptHash(pw, credential.salt, credential.params)
+            : generateHash(pw, credential.salt);
+    const expected = Buffer.from(credential.saltedHash);
+    const actual = Buffer.from(provided);
+    return (
+        expected.length == actual.length &&
+        crypto.timingSafeEqual(expected, actual)
+    );
+}
+
+/**
+ * Whether a stored credential was made with an older algorithm or weaker parameters
+ * than new credentials, and should be replaced once the password is known.
+ * @param {ICredential} credential the credential stored for the account
+ */
+const needsRehash = (credential: ICredential) =>
+    credential.algorithm != 'scrypt' ||
+    credential.params == null ||
+    credential.params.N != scryptParams.N ||
+    credential.params.r != scryptParams.r ||
+    credential.params.p != scryptParams.p ||
+    credential.params.keylen != scryptParams.keylen;
+
+/**
+ * Maps a row of Account_Credential to a credential.
+ * @param row a row selecting salted_hash, salt, algorithm and params
+ */
+const toCredential = (row): ICredential => ({
+    saltedHash: row.salted_hash,
+    salt: row.salt,
+    algorithm: row.algorithm,
+    params: row.params,
+});
+
+/**
+ * Hashes a password and stores it as the only credential of an account, replacing
+ * any credential it had before.
+ * @param {number} accountId the account to set the password of
+ * @param {string} pw the new password
+ * @param client the pool, or the client of an open transaction, to store the credential with
+ */
+async function setPassword(
+    accountId: number,
+    pw: string,
+    client: Pool | PoolClient = pool
+): Promise<void> {
+    const credential = await hashPassword(pw);
+    await client.query(
+        `WITH removed AS (DELETE FROM Account_Credential WHERE account_id = $1)
+        INSERT INTO Account_Credential(account_id, salted_hash, salt, algorithm, params)
+        VALUES ($1, $2, $3, $4, $5)`,
+        [
+            accountId,
+            credential.saltedHash,
+            credential.salt,
+            credential.algorithm,
+            credential.params,
+        ]
+    );
+}
+
+const credentialingFunctions = {
+    generateHash,
+    generateSalt,
+    hashPassword,
+    verifyPassword,
+    needsRehash,
+    toCredential,
+    setPassword,
+};
 
 export { credentialingFunctions };
@@ -0,0 +1,80 @@
+/**
+ * Parses CSV text (RFC 4180) into rows of fields. Fields may be quoted with double quotes,
+ * in which case they may hold commas, line breaks and doubled quotes. Both CRLF and LF line
+ * endings are accepted, and blank lines are skipped.
+ *
+ * @param {string} text the CSV text to parse
+ * @returns the rows of the text, each an array of its fields
+ * @throws if a quoted field is not closed
+ */
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    let i = text.charCodeAt(0) == 0xfeff ? 1 : 0;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0] != '') {
+            rows.push(row);
+        }
+        row = [];
+        field = '';
+    };
+
+    for (; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char == '"' && text[i + 1] == '"') {
+                field += '"';
+                i++;
+            } else if (char == '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char == '"') {
+            quoted = true;
+        } else if (char == ',') {
+            row.push(field);
+            field = '';
+        } else if (char == '\n') {
+            endRow();
+        } else if (char != '\r' || text[i + 1] != '\n') {
+            field += char;
+        }
+    }
+    if (quoted) {
+        throw new Error('Unclosed quoted field');
+    }
+    endRow();
+    return rows;
+}
+
+/**
+ * Formats fields as a line of CSV (RFC 4180), quoting the fields that need it.
+ * Null and undefined fields are written empty.
+ *
+ * @param {unknown[]} fields the fields of the row
+ * @returns the row, ending in CRLF
+ */
+function formatCsvRow(fields: unknown[]): string {
+    return (
+        fields
+            .map((field) => {
+                const text = field == null ? '' : String(field);
+                return /[",\r\n]/.test(text)
+                    ? '"' + text.split('"').join('""') + '"'
+                    : text;
+            })
+            .join(',') + '\r\n'
+    );
+}
+
+const csvFunctions = {
+    parseCsv,
+    formatCsvRow,
+};
+
+export { csvFunctions };
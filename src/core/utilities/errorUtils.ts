@@ -0,0 +1,68 @@
+import {
+    AppError,
+    AlreadyExistsError,
+    BadRequestError,
+    NotFoundError,
+} from '../models/error.model';
+
+// the PostgreSQL error codes the API reports to the client rather than as server errors
+const uniqueViolation = '23505';
+const foreignKeyViolation = '23503';
+
+// the error to report when a query breaks a constraint, by the name of the constraint
+const constraintErrors: Record<string, () => AppError> = {
+    account_username_key: () => new AlreadyExistsError('Username exists'),
+    account_username_lower_key: () => new AlreadyExistsError('Username exists'),
+    account_email_key: () => new AlreadyExistsError('Email exists'),
+    account_email_lower_key: () => new AlreadyExistsError('Email exists'),
+    account_phone_key: () => new AlreadyExistsError('Phone number exists'),
+    books_isbn13_key: () => new AlreadyExistsError('Book exists'),
+    author_author_name_key: () =>
+        new AlreadyExistsError('Author exists - merge the authors instead'),
+    demo_name_key: () => new AlreadyExistsError('Name exists'),
+    shelves_account_id_name_key: () => new AlreadyExistsError('Shelf exists'),
+    shelf_books_pkey: () =>
+        new AlreadyExistsError('Book is already on this shelf'),
+    shelf_books_isbn13_fkey: () => new NotFoundError('No book with given ISBN'),
+    reviews_account_id_isbn13_key: () =>
+        new AlreadyExistsError('Review exists'),
+    reviews_isbn13_fkey: () => new NotFoundError('No book with given ISBN'),
+};
+
+/**
+ * Finds the error to report to the client for an error thrown while handling a request.
+ * Database errors for broken unique and foreign key constraints are reported as the
+ * request's fault, with the message for the constraint where there is one.
+ *
+ * @param error the error thrown
+ * @returns the error to report, or null if it is a server error
+ */
+function toAppError(error): AppError | null {
+    if (error instanceof AppError) {
+        return error;
+    }
+    const constraintError = constraintErrors[error?.constraint];
+    if (constraintError !== undefined) {
+        return constraintError();
+    } else if (error?.code == uniqueViolation) {
+        return new AlreadyExistsError('Already exists', {
+            constraint: error.constraint,
+        });
+    } else if (error?.code == foreignKeyViolation) {
+        return new BadRequestError('Invalid reference', {
+            constraint: error.constraint,
+        });
+    } else if (error?.type == 'entity.parse.failed') {
+        // body-parser could not parse the JSON body
+        return new BadRequestError('Malformed JSON body');
+    } else if (error?.type == 'entity.too.large') {
+        return new AppError(413, 'PAYLOAD_TOO_LARGE', 'Body is too large');
+    }
+    return null;
+}
+
+const errorFunctions = {
+    toAppError,
+};
+
+export { errorFunctions };
@@ -4,4 +4,47 @@ import { validationFunctions } from './validationUtils';
 
 import { credentialingFunctions } from './credentialingUtils';
 
-export { pool, credentialingFunctions, validationFunctions };
+import { paginationFunctions } from './paginationUtils';
+
+import { bookFunctions } from './bookUtils';
+
+import { tokenFunctions } from './tokenUtils';
+
+import { mailFunctions } from './mailUtils';
+
+import { verificationFunctions } from './verificationUtils';
+
+import { signinFunctions } from './signinUtils';
+
+import { accountFunctions } from './accountUtils';
+
+import { ratingFunctions } from './ratingUtils';
+
+import { totpFunctions } from './totpUtils';
+
+import { csvFunctions } from './csvUtils';
+
+import { authorFunctions } from './authorUtils';
+
+import { isbnFunctions } from './isbnUtils';
+
+import { errorFunctions } from './errorUtils';
+
+export {
+    pool,
+    credentialingFunctions,
+    validationFunctions,
+    paginationFunctions,
+    bookFunctions,
+    tokenFunctions,
+    mailFunctions,
+    verificationFunctions,
+    signinFunctions,
+    accountFunctions,
+    ratingFunctions,
+    totpFunctions,
+    csvFunctions,
+    authorFunctions,
+    isbnFunctions,
+    errorFunctions,
+};
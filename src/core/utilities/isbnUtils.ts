@@ -0,0 +1,137 @@
+/**
+ * Removes the hyphens and spaces ISBNs are often printed with, e.g. 0-439-02348-3.
+ *
+ * @param {string} isbn the ISBN to strip
+ * @returns the digits (and ISBN-10 check character) of the ISBN
+ */
+const stripIsbn = (isbn: string): string => isbn.replace(/[-\s]/g, '');
+
+/**
+ * Checks an ISBN-10: nine digits and a check character, 0-9 or X for 10, such that the
+ * sum of each digit times its weight, 10 down to 1, is a multiple of 11. Hyphens and
+ * spaces are ignored.
+ *
+ * @param {string} isbn the ISBN to check
+ * @returns true if the ISBN is a valid ISBN-10, false otherwise
+ */
+function isValidIsbn10(isbn: string): boolean {
+    const digits = stripIsbn(isbn).toUpperCase();
+    if (!/^\d{9}[\dX]$/.test(digits)) {
+        return false;
+    }
+    const sum = [...digits].reduce(
+        (total, digit, i) => total + (digit == 'X' ? 10 : +digit) * (10 - i),
+        0
+    );
+    return sum % 11 == 0;
+}
+
+/**
+ * Checks an ISBN-13: thirteen digits such that the sum of the digits, weighted 1 and 3
+ * in turn, is a multiple of 10. Hyphens and spaces are ignored.
+ *
+ * @param {string} isbn the ISBN to check
+ * @returns true if the ISBN is a valid ISBN-13, false otherwise
+ */
+function isValidIsbn13(isbn: string): boolean {
+    const digits = stripIsbn(isbn);
+    if (!/^\d{13}$/.test(digits)) {
+        return false;
+    }
+    const sum = [...digits].reduce(
+        (total, digit, i) => total + +digit * (i % 2 == 0 ? 1 : 3),
+        0
+    );
+    return sum % 10 == 0;
+}
+
+/**
+ * Converts an ISBN-10 to the ISBN-13 of the same book: the 978 prefix, the first nine
+ * digits, and a new check digit.
+ *
+ * @param {string} isbn10 a valid ISBN-10, hyphens and spaces allowed
+ * @returns the ISBN-13, without hyphens
+ */
+function isbn10To13(isbn10: string): string {
+    const body = '978' + stripIsbn(isbn10).slice(0, 9);
+    const sum = [...body].reduce(
+        (total, digit, i) => total + +digit * (i % 2 == 0 ? 1 : 3),
+        0
+    );
+    return body + ((10 - (sum % 10)) % 10);
+}
+
+// ISBNs sent as JSON numbers have lost any leading zeros, so are read as ISBN-13s
+const isbnText = (candidate: unknown): string | null =>
+    typeof candidate == 'number' &&
+    Number.isSafeInteger(candidate) &&
+    candidate >= 0
+        ? String(candidate).padStart(13, '0')
+        : typeof candidate == 'string'
+          ? stripIsbn(candidate)
+          : null;
+
+/**
+ * Reads an ISBN-10 or ISBN-13, as a string with or without hyphens or as a number, into
+ * the ISBN-13 it is stored under.
+ *
+ * @param {unknown} candidate the value to read
+ * @returns the ISBN-13, or null if the value is not an ISBN with a valid check digit
+ */
+function toIsbn13(candidate: unknown): number | null {
+    const isbn = isbnText(candidate);
+    if (isbn != null && isValidIsbn13(isbn)) {
+        return Number(isbn);
+    } else if (isbn != null && isValidIsbn10(isbn)) {
+        return Number(isbn10To13(isbn));
+    }
+    return null;
+}
+
+/*
+ * The ISBN-13s of books.csv were saved as floating point numbers, so the books loaded
+ * from it are stored under their ISBN-13 rounded to the nearest ten, which mostly fails
+ * the check digit, e.g. 9780439023480 for 9780439023481.
+ */
+
+/**
+ * Reads an ISBN like toIsbn13, and also accepts the rounded ISBN-13s the books loaded
+ * from books.csv are stored under, so that clients can look up the ISBNs the API returns.
+ *
+ * @param {unknown} candidate the value to read
+ * @returns the ISBN-13, or null if the value is neither a valid ISBN nor a rounded one
+ */
+function toCatalogIsbn(candidate: unknown): number | null {
+    const isbn = isbnText(candidate);
+    const isbn13 = toIsbn13(candidate);
+    if (isbn13 == null && isbn != null && /^\d{12}0$/.test(isbn)) {
+        return Number(isbn);
+    }
+    return isbn13;
+}
+
+/**
+ * The ISBN-13s a book may be stored under, in order of preference: the ISBN itself,
+ * then, for a valid ISBN, the same ISBN rounded to the nearest ten as loaded from
+ * books.csv.
+ *
+ * @param {number} isbn13 an ISBN read with toCatalogIsbn
+ */
+function catalogIsbns(isbn13: number): number[] {
+    const rounded = Math.round(isbn13 / 10) * 10;
+    return isValidIsbn13(String(isbn13).padStart(13, '0')) && rounded != isbn13
+        ? [isbn13, rounded]
+        : [isbn13];
+}
+
+const isbnFunctions = {
+    stripIsbn,
+    isValidIsbn10,
+    isValidIsbn13,
+    isbn10To13,
+    toIsbn13,
+    toCatalogIsbn,
+    catalogIsbns,
+};
+
+export { isbnFunctions };
@@ -0,0 +1,53 @@
+import fs from 'fs';
+
+import { IMail, IMailTransport } from '../models';
+
+/**
+ * Writes each mail to the console. The default for local development.
+ */
+const consoleTransport: IMailTransport = {
+    send: async (mail: IMail) => {
+        console.dir({ mail });
+    },
+};
+
+/**
+ * Creates a transport that appends each mail as a line of JSON to a file, so tests
+ * can read back the mail an endpoint sent.
+ * @param {string} path the file to append mail to
+ */
+const fileTransport = (path: string): IMailTransport => ({
+    send: (mail: IMail) =>
+        fs.promises.appendFile(
+            path,
+            JSON.stringify({ ...mail, sent: new Date() }) + '\n'
+        ),
+});
+
+let transport: IMailTransport =
+    process.env.MAIL_FILE !== undefined
+        ? fileTransport(process.env.MAIL_FILE)
+        : consoleTransport;
+
+/**
+ * Replaces the transport used to send mail.
+ * @param {IMailTransport} replacement the transport to send all later mail with
+ */
+const setMailTransport = (replacement: IMailTransport) => {
+    transport = replacement;
+};
+
+/**
+ * Sends a mail with the current transport.
+ * @param {IMail} mail the mail to send
+ */
+const sendMail = (mail: IMail) => transport.send(mail);
+
+const mailFunctions = {
+    consoleTransport,
+    fileTransport,
+    setMailTransport,
+    sendMail,
+};
+
+export { mailFunctions };
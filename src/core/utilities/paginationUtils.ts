@@ -0,0 +1,151 @@
+import { ICursor, CursorSort } from '../models';
+
+/**
+ * Encodes the position of a row into an opaque cursor string that clients hand back
+ * to continue paging from that row.
+ *
+ * @param {CursorSort} sort the sort key the page was ordered by
+ * @param {string} order the direction of the sort, ASC or DESC
+ * @param {string} direction whether the cursor pages forward or backward from the row
+ * @param row the row (with isbn13 and rating_avg columns) the cursor points at
+ * @returns a url-safe cursor string
+ */
+function encodeCursor(
+    sort: CursorSort,
+    order: 'ASC' | 'DESC',
+    direction: 'next' | 'prev',
+    row
+): string {
+    const cursor: ICursor = {
+        sort,
+        order,
+        direction,
+        isbn13: Number(row.isbn13),
+        rating: sort == 'rating' ? (row.rating_avg ?? 0) : undefined,
+    };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor created by encodeCursor.
+ *
+ * @param {any} candidate the value supplied by the client
+ * @returns the decoded cursor, or null if the value is not a valid cursor
+ */
+function decodeCursor(candidate: unknown): ICursor | null {
+    if (typeof candidate !== 'string' || candidate.length == 0) {
+        return null;
+    }
+    try {
+        const cursor = JSON.parse(
+            Buffer.from(candidate, 'base64url').toString('utf8')
+        );
+        const valid =
+            (cursor.sort == 'isbn13' || cursor.sort == 'rating') &&
+            (cursor.order == 'ASC' || cursor.order == 'DESC') &&
+            (cursor.direction == 'next' || cursor.direction == 'prev') &&
+            Number.isFinite(cursor.isbn13) &&
+            (cursor.sort != 'rating' || Number.isFinite(cursor.rating));
+        return valid ? cursor : null;
+    } catch {
+        return null;
+    }
+}
+
+// the rating sort key, with unrated books in the same place as encodeCursor puts them
+const ratingKey = 'COALESCE(b.rating_avg, 0)';
+
+/**
+ * Builds the WHERE condition and ORDER BY clause for a keyset paginated query over
+ * the Books table aliased as <code>b</code>. Paging backward flips the order, so the
+ * rows must be passed through toPage to be returned in the requested order. Books
+ * without ratings sort as if rated 0, since a NULL would fail every comparison.
+ *
+ * @param {CursorSort} sort the sort key to page by
+ * @param {string} order the direction of the sort, ASC or DESC
+ * @param {ICursor | null} cursor the cursor to continue from, or null for the first page
+ * @param {number} firstParam the index of the first $n placeholder the condition may use
+ * @returns the condition (null on the first page), the ORDER BY clause and the values
+ * for the placeholders used by the condition
+ */
+function keysetClause(
+    sort: CursorSort,
+    order: 'ASC' | 'DESC',
+    cursor: ICursor | null,
+    firstParam: number
+): { condition: string | null; orderBy: string; values: number[] } {
+    const backward = cursor != null && cursor.direction == 'prev';
+    const ascending = (order == 'ASC') != backward;
+    const direction = ascending ? 'ASC' : 'DESC';
+    const comparison = ascending ? '>' : '<';
+
+    const orderBy =
+        sort == 'rating'
+            ? `${ratingKey} ${direction}, b.isbn13 ${direction}`
+            : `b.isbn13 ${direction}`;
+
+    if (cursor == null) {
+        return { condition: null, orderBy, values: [] };
+    }
+    if (sort == 'rating') {
+        return {
+            condition: `(${ratingKey}, b.isbn13) ${comparison} ($${firstParam}, $${firstParam + 1})`,
+            orderBy,
+            values: [cursor.rating, cursor.isbn13],
+        };
+    }
+    return {
+        condition: `b.isbn13 ${comparison} $${firstParam}`,
+        orderBy,
+        values: [cursor.isbn13],
+    };
+}
+
+/**
+ * Turns the rows of a keyset paginated query into a page. The query must have been
+ * run with a LIMIT of one more than the page size so the presence of another page
+ * can be detected.
+ *
+ * @param rows the rows returned by the query built with keysetClause
+ * @param {number} limit the page size
+ * @param {CursorSort} sort the sort key the query was ordered by
+ * @param {string} order the requested direction of the sort, ASC or DESC
+ * @param {ICursor | null} cursor the cursor the query continued from
+ * @returns the rows of the page in the requested order and the cursors of the
+ * neighbouring pages, null where there is no such page
+ */
+function toPage<T>(
+    rows: T[],
+    limit: number,
+    sort: CursorSort,
+    order: 'ASC' | 'DESC',
+    cursor: ICursor | null
+): { rows: T[]; nextCursor: string | null; prevCursor: string | null } {
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    const backward = cursor != null && cursor.direction == 'prev';
+    if (backward) {
+        page.reverse();
+    }
+    if (page.length == 0) {
+        return { rows: page, nextCursor: null, prevCursor: null };
+    }
+    const hasNext = backward || hasMore;
+    const hasPrev = backward ? hasMore : cursor != null;
+    return {
+        rows: page,
+        nextCursor: hasNext
+            ? encodeCursor(sort, order, 'next', page[page.length - 1])
+            : null,
+        prevCursor: hasPrev ? encodeCursor(sort, order, 'prev', page[0]) : null,
+    };
+}
+
+const paginationFunctions = {
+    encodeCursor,
+    decodeCursor,
+    keysetClause,
+    toPage,
+};
+
+export { paginationFunctions };
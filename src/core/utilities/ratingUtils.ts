@@ -0,0 +1,54 @@
+import { PoolClient } from 'pg';
+
+/**
+ * Moves a single vote in the aggregate rating columns of a book and recomputes the
+ * average from the star distribution. The imported ratings have no individual votes
+ * behind them, so the aggregate is adjusted by the change rather than rebuilt from
+ * the Book_Ratings table.
+ *
+ * @param {PoolClient} client the client holding the open transaction
+ * @param isbn13 the book whose aggregate ratings change
+ * @param {number | null} added the star rating the account now gives, or null if withdrawn
+ * @param {number | null} removed the star rating the account gave before, or null if none
+ * @returns the updated Books row
+ */
+async function applyVote(
+    client: PoolClient,
+    isbn13,
+    added: number | null,
+    removed: number | null
+) {
+    const starDelta = (star: number) =>
+        `(CASE WHEN $2::INT = ${star} THEN 1 ELSE 0 END) - (CASE WHEN $3::INT = ${star} THEN 1 ELSE 0 END)`;
+
+    await client.query(
+        `UPDATE Books SET
+            rating_count = COALESCE(rating_count, 0)
+                + (CASE WHEN $2::INT IS NULL THEN 0 ELSE 1 END)
+                - (CASE WHEN $3::INT IS NULL THEN 0 ELSE 1 END),
+            rating_1_star = COALESCE(rating_1_star, 0) + ${starDelta(1)},
+            rating_2_star = COALESCE(rating_2_star, 0) + ${starDelta(2)},
+            rating_3_star = COALESCE(rating_3_star, 0) + ${starDelta(3)},
+            rating_4_star = COALESCE(rating_4_star, 0) + ${starDelta(4)},
+            rating_5_star = COALESCE(rating_5_star, 0) + ${starDelta(5)}
+        WHERE isbn13 = $1`,
+        [isbn13, added, removed]
+    );
+
+    const result = await client.query(
+        `UPDATE Books SET
+            rating_avg = (rating_1_star + 2 * rating_2_star + 3 * rating_3_star
+                + 4 * rating_4_star + 5 * rating_5_star)::FLOAT
+                / NULLIF(rating_1_star + rating_2_star + rating_3_star + rating_4_star + rating_5_star, 0)
+        WHERE isbn13 = $1
+        RETURNING *`,
+        [isbn13]
+    );
+    return result.rows[0];
+}
+
+const ratingFunctions = {
+    applyVote,
+};
+
+export { ratingFunctions };
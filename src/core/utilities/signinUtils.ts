@@ -0,0 +1,214 @@
+import { pool } from './sql_conn';
+import { credentialingFunctions } from './credentialingUtils';
+import { tokenFunctions } from './tokenUtils';
+import { totpFunctions } from './totpUtils';
+
+// An account is locked after this many failed attempts in a row
+const maxAccountFailures = 5;
+// A client IP is locked after this many failed attempts within the lockout window
+const maxIpFailures = 20;
+const lockoutMinutes = 15;
+const maxDelayMs = 4000;
+
+// Checked against when the identifier is unknown, so a failed attempt takes as long
+// whether or not the account exists
+const dummyCredential = credentialingFunctions.hashPassword('not a password');
+
+const delay = (ms: number) =>
+    new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Records a failed password attempt against the client IP, and against the account if
+ * there is one, then waits longer the more attempts have failed from the client IP. The
+ * wait does not depend on the account, so it does not reveal whether the account exists.
+ *
+ * @param {string} ip the address of the client
+ * @param {number | null} accountId the account that was attempted, or null if none matched
+ */
+async function recordFailure(ip: string, accountId: number | null) {
+    const ipResult = await pool.query(
+        `INSERT INTO Login_Failures_By_IP (ip_address, failures, last_failure_at)
+        VALUES ($1, 1, NOW())
+        ON CONFLICT (ip_address) DO UPDATE SET
+            failures = CASE
+                WHEN Login_Failures_By_IP.last_failure_at < NOW() - make_interval(mins => $2)
+                THEN 1
+                ELSE Login_Failures_By_IP.failures + 1
+            END,
+            last_failure_at = NOW()
+        RETURNING failures`,
+        [ip, lockoutMinutes]
+    );
+    const failures: number = ipResult.rows[0].failures;
+    if (failures >= maxIpFailures) {
+        await pool.query(
+            `UPDATE Login_Failures_By_IP SET locked_until = NOW() + make_interval(mins => $2)
+            WHERE ip_address = $1`,
+            [ip, lockoutMinutes]
+        );
+    }
+
+    if (accountId != null) {
+        // A failure while locked leaves the lock as it is, so nobody can keep an account
+        // locked by failing on purpose, and the count starts over once a lock has passed
+        await pool.query(
+            `UPDATE Account SET
+                failed_logins = CASE
+                    WHEN locked_until > NOW() THEN failed_logins
+                    WHEN locked_until IS NOT NULL THEN 1
+                    ELSE failed_logins + 1
+                END,
+                locked_until = CASE
+                    WHEN locked_until > NOW() THEN locked_until
+                    WHEN locked_until IS NULL AND failed_logins + 1 >= $2
+                    THEN NOW() + make_interval(mins => $3)
+                    ELSE NULL
+                END
+            WHERE account_id = $1`,
+            [accountId, maxAccountFailures, lockoutMinutes]
+        );
+    }
+
+    await delay(Math.min(250 * 2 ** (failures - 1), maxDelayMs));
+}
+
+/**
+ * Clears the failed attempts of an account after it signs in.
+ *
+ * @param {number} accountId the account that signed in
+ * @param {boolean} recordSignin true to record this as the last sign in of the account
+ */
+async function recordSuccess(accountId: number, recordSignin: boolean) {
+    await pool.query(
+        `UPDATE Account SET failed_logins = 0, locked_until = NULL,
+            last_login_at = CASE WHEN $2 THEN NOW() ELSE last_login_at END
+        WHERE account_id = $1`,
+        [accountId, recordSignin]
+    );
+}
+
+/**
+ * Checks a username or email address and a password, with brute-force protection. Every
+ * failed attempt is counted against the account and the client IP, and is answered more
+ * slowly than the last from that IP. Too many failures lock the account or IP for a
+ * while. A locked account and an unknown identifier fail the same way as a wrong
+ * password, so the result does not reveal whether the account exists.
+ *
+ * @param {string} identifier the username or email address of the account, in any case
+ * @param {string} password the password provided by the client
+ * @param {string} ip the address of the client
+ * @param {boolean} recordSignin true to record the attempt as the last sign in of the account
+ * @returns 'throttled' if the client IP is locked out, 'invalid' if the credentials are
+ * wrong or the account is locked, otherwise 'ok' with the account row
+ */
+async function authenticate(
+    identifier: string,
+    password: string,
+    ip: string,
+    recordSignin: boolean
+) {
+    const ipLock = await pool.query(
+        'SELECT 1 FROM Login_Failures_By_IP WHERE ip_address = $1 AND locked_until > NOW()',
+        [ip]
+    );
+    if (ipLock.rowCount > 0) {
+        return { status: 'throttled' as const };
+    }
+
+    const result = await pool.query(
+        `SELECT salted_hash, salt, algorithm, params, Account.account_id, Account.email,
+            Account.firstname, Account.lastname, Account.phone, Account.username,
+            Account.account_role, Account.email_verified_at, Account.totp_enabled_at,
+            COALESCE(Account.locked_until > NOW(), FALSE) AS locked
+        FROM Account_Credential
+        INNER JOIN Account ON Account_Credential.account_id = Account.account_id
+        WHERE LOWER(Account.username) = LOWER($1) OR LOWER(Account.email) = LOWER($1)`,
+        [identifier]
+    );
+    if (result.rowCount > 1) {
+        throw new Error('Too many credentials for ' + identifier);
+    }
+    const row = result.rows[0];
+
+    const matches = await credentialingFunctions.verifyPassword(
+        password,
+        row == undefined
+            ? await dummyCredential
+            : credentialingFunctions.toCredential(row)
+    );
+    if (row == undefined || row.locked || !matches) {
+        await recordFailure(ip, row?.account_id ?? null);
+        return { status: 'invalid' as const };
+    }
+
+    // with two-factor sign in, the attempt only succeeds once the code is checked too
+    if (row.totp_enabled_at == null) {
+        await recordSuccess(row.account_id, recordSignin);
+    }
+    return { status: 'ok' as const, row };
+}
+
+/**
+ * Checks the second step of a two-factor sign in: a code from the authenticator app, or
+ * an unused recovery code. Failed codes count towards the same lockout as passwords.
+ *
+ * @param {number} accountId the account that passed the password step
+ * @param {string} code the authenticator or recovery code provided by the client
+ * @param {string} ip the address of the client
+ * @returns 'throttled' if the client IP is locked out, 'invalid' if the code is wrong or
+ * the account is locked, otherwise 'ok' with the account row
+ */
+async function verifySecondFactor(accountId: number, code: string, ip: string) {
+    const ipLock = await pool.query(
+        'SELECT 1 FROM Login_Failures_By_IP WHERE ip_address = $1 AND locked_until > NOW()',
+        [ip]
+    );
+    if (ipLock.rowCount > 0) {
+        return { status: 'throttled' as const };
+    }
+
+    const result = await pool.query(
+        `SELECT *, COALESCE(locked_until > NOW(), FALSE) AS locked
+        FROM Account
+        WHERE account_id = $1 AND totp_enabled_at IS NOT NULL`,
+        [accountId]
+    );
+    const row = result.rows[0];
+    if (row == undefined || row.locked) {
+        await recordFailure(ip, row?.account_id ?? null);
+        return { status: 'invalid' as const };
+    }
+
+    let accepted = false;
+    const step = totpFunctions.verifyCode(row.totp_secret, code);
+    if (step != null) {
+        // only the first use of a code counts
+        const used = await pool.query(
+            `UPDATE Account SET totp_last_step = $2
+            WHERE account_id = $1 AND (totp_last_step IS NULL OR totp_last_step < $2)`,
+            [accountId, step]
+        );
+        accepted = used.rowCount == 1;
+    } else {
+        const used = await pool.query(
+            `UPDATE Recovery_Codes SET used_at = NOW()
+            WHERE account_id = $1 AND code_hash = $2 AND used_at IS NULL`,
+            [accountId, tokenFunctions.hashToken(code.trim().toLowerCase())]
+        );
+        accepted = used.rowCount == 1;
+    }
+
+    if (!accepted) {
+        await recordFailure(ip, accountId);
+        return { status: 'invalid' as const };
+    }
+    await recordSuccess(accountId, true);
+    return { status: 'ok' as const, row };
+}
+
+const signinFunctions = {
+    authenticate,
+    verifySecondFactor,
+};
+
+export { signinFunctions };
@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Pool, PoolClient } from 'pg';
+
+import { pool } from './sql_conn';
+
+const key = {
+    secret: process.env.JSON_WEB_TOKEN,
+};
+
+// Access tokens are short lived; clients use their refresh token to get a new one
+const accessTokenLifetime = '15 minutes';
+const challengeTokenLifetime = '5 minutes';
+// Challenge tokens are signed with their own key so they can never pass as access tokens
+const challengeSecret = crypto
+    .createHmac('sha256', key.secret ?? '')
+    .update('two-factor challenge')
+    .digest();
+const refreshTokenLifetimeDays = 30;
+
+/**
+ * Signs a new access token (JWT) for an account.
+ *
+ * @param claims the claims to carry in the token
+ * @returns the signed access token
+ */
+const signAccessToken = (claims: { name: string; id: number; role: number }) =>
+    jwt.sign(claims, key.secret, {
+        expiresIn: accessTokenLifetime,
+    });
+
+/**
+ * Signs a token showing an account passed the password step of a two-factor sign in.
+ *
+ * @param {number} accountId the account signing in
+ * @returns the signed challenge token
+ */
+const signChallengeToken = (accountId: number) =>
+    jwt.sign({ id: accountId }, challengeSecret, {
+        expiresIn: challengeTokenLifetime,
+    });
+
+/**
+ * Checks a challenge token from signChallengeToken.
+ *
+ * @param {string} token the challenge token
+ * @returns the account signing in, or null if the token is not valid or has expired
+ */
+const verifyChallengeToken = (token: string): number | null => {
+    try {
+        const decoded = jwt.verify(token, challengeSecret);
+        return typeof decoded == 'object' ? decoded.id : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Creates the hexadecimal SHA-256 digest of a refresh token. Only the digest is
+ * stored, so a leaked Refresh_Tokens table cannot be used to sign in.
+ *
+ * @param {string} token the refresh token to hash
+ */
+const hashToken = (token: string) =>
+    crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Creates a random, URL safe token to hand to a client. Store only its hash.
+ */
+const generateToken = () => crypto.randomBytes(32).toString('base64url');
+
+/**
+ * Creates and stores a new refresh token for an account.
+ *
+ * @param {number} accountId the account the token belongs to
+ * @param {string} familyId the family of the token being rotated, or omit to start a
+ * new family for a new sign in
+ * @param client the pool, or the client of an open transaction, to store the token with
+ * @returns the refresh token to hand to the client
+ */
+async function issueRefreshToken(
+    accountId: number,
+    familyId: string = crypto.randomUUID(),
+    client: Pool | PoolClient = pool
+): Promise<string> {
+    const token = generateToken();
+    await client.query(
+        `INSERT INTO Refresh_Tokens (account_id, family_id, token_hash, expires_at)
+        VALUES ($1, $2, $3, NOW() + make_interval(days => $4))`,
+        [accountId, familyId, hashToken(token), refreshTokenLifetimeDays]
+    );
+    return token;
+}
+
+/**
+ * Revokes every refresh token of an account and every access token issued to it up to
+ * now, signing the account out everywhere.
+ *
+ * @param {number} accountId the account to sign out
+ * @param client the pool, or the client of an open transaction, to revoke the tokens with
+ */
+async function revokeAllTokens(
+    accountId: number,
+    client: Pool | PoolClient = pool
+): Promise<void> {
+    await client.query(
+        'UPDATE Account SET tokens_revoked_at = NOW() WHERE account_id = $1',
+        [accountId]
+    );
+    await client.query(
+        'UPDATE Refresh_Tokens SET revoked_at = NOW() WHERE account_id = $1 AND revoked_at IS NULL',
+        [accountId]
+    );
+}
+
+const tokenFunctions = {
+    signAccessToken,
+    signChallengeToken,
+    verifyChallengeToken,
+    hashToken,
+    generateToken,
+    issueRefreshToken,
+    revokeAllTokens,
+};
+
+export { tokenFunctions };
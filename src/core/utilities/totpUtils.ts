@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+
+// RFC 6238 defaults, which every authenticator app supports
+const stepSeconds = 30;
+const digits = 6;
+// accept codes from one step either side of now, for clocks that drift
+const driftSteps = 1;
+const issuer = 'TCSS 460 Books';
+
+const base32Alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encodes bytes as unpadded base32 (RFC 4648), the form authenticator apps read
+ * secrets in.
+ * @param {Buffer} bytes the bytes to encode
+ */
+const base32Encode = (bytes: Buffer): string => {
+    let bits = '';
+    for (const byte of bytes) {
+        bits += byte.toString(2).padStart(8, '0');
+    }
+    let encoded = '';
+    for (let i = 0; i < bits.length; i += 5) {
+        encoded +=
+            base32Alphabet[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+    }
+    return encoded;
+};
+
+/**
+ * Decodes unpadded base32 (RFC 4648) into bytes.
+ * @param {string} encoded the base32 string to decode
+ */
+const base32Decode = (encoded: string): Buffer => {
+    let bits = '';
+    for (const char of encoded.toUpperCase()) {
+        bits += base32Alphabet.indexOf(char).toString(2).padStart(5, '0');
+    }
+    const bytes: number[] = [];
+    for (let i = 0; i + 8 <= bits.length; i += 8) {
+        bytes.push(parseInt(bits.slice(i, i + 8), 2));
+    }
+    return Buffer.from(bytes);
+};
+
+/**
+ * Creates a new random TOTP secret.
+ * @returns the secret, base32 encoded
+ */
+const generateSecret = () => base32Encode(crypto.randomBytes(20));
+
+/**
+ * Computes the TOTP code of a secret for a time step (RFC 4226 HOTP with the step as
+ * the counter).
+ * @param {string} secret the base32 encoded secret
+ * @param {number} step the number of 30 second steps since the Unix epoch
+ */
+const codeAt = (secret: string, step: number): string => {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = crypto
+        .createHmac('sha1', base32Decode(secret))
+        .update(counter)
+        .digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return (binary % 10 ** digits).toString().padStart(digits, '0');
+};
+
+/**
+ * Checks a code against a secret, allowing for a little clock drift.
+ * @param {string} secret the base32 encoded secret
+ * @param {string} code the code entered by the user
+ * @returns the time step the code belongs to, or null if it does not match. Store the
+ * step and reject codes from it and earlier steps so a code cannot be replayed.
+ */
+const verifyCode = (secret: string, code: string): number | null => {
+    if (!new RegExp('^[0-9]{' + digits + '}$').test(code)) {
+        return null;
+    }
+    const now = Math.floor(Date.now() / 1000 / stepSeconds);
+    for (let step = now - driftSteps; step <= now + driftSteps; step++) {
+        const expected = codeAt(secret, step);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+            return step;
+        }
+    }
+    return null;
+};
+
+/**
+ * Creates the otpauth:// URI an authenticator app scans to add a secret.
+ * @param {string} secret the base32 encoded secret
+ * @param {string} account the name to show for the account in the app
+ */
+const otpauthUri = (secret: string, account: string) =>
+    'otpauth://totp/' +
+    encodeURIComponent(issuer + ':' + account) +
+    '?secret=' +
+    secret +
+    '&issuer=' +
+    encodeURIComponent(issuer) +
+    '&algorithm=SHA1&digits=' +
+    digits +
+    '&period=' +
+    stepSeconds;
+
+/**
+ * Creates single use recovery codes for when the authenticator app is lost.
+ * @param {number} count how many codes to create
+ * @returns codes in the form xxxxx-xxxxx of lowercase hexadecimal characters
+ */
+const generateRecoveryCodes = (count = 10): string[] =>
+    Array.from({ length: count }, () => {
+        const hex = crypto.randomBytes(5).toString('hex');
+        return hex.slice(0, 5) + '-' + hex.slice(5);
+    });
+
+const totpFunctions = {
+    generateSecret,
+    verifyCode,
+    otpauthUri,
+    generateRecoveryCodes,
+};
+
+export { totpFunctions };
@@ -42,6 +42,105 @@ function isNumber(x: any): x is number {
     return typeof x === 'number';
 }
 
+/**
+ * Checks the parameter to see if it is a calendar date in the form YYYY-MM-DD.
+ *
+ * @param {unknown} candidate the value to check
+ * @returns true if the parameter is a valid YYYY-MM-DD date, false otherwise
+ */
+function isDateProvided(candidate: unknown): boolean {
+    if (!isString(candidate) || !/^\d{4}-\d{2}-\d{2}$/.test(candidate)) {
+        return false;
+    }
+    // Date rolls invalid days over (2024-02-30 becomes 2024-03-01), so compare back
+    const date = new Date(candidate + 'T00:00:00Z');
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(candidate);
+}
+
+// The *rules* must be documented and the client-side validation should match these rules.
+const passRegex = /^[a-zA-Z0-9!@#$%^&*_]{8,20}$/;
+
+/**
+ * Checks the parameter to see if it meets the password rules: 8 to 20 letters, numbers
+ * and/or characters in the set of !, @, #, $, %, ^, &, *, _.
+ *
+ * @param {unknown} candidate the value to check
+ * @returns true if the parameter is a valid password, false otherwise
+ */
+function isValidPassword(candidate: unknown): boolean {
+    return (
+        isStringProvided(candidate) &&
+        passRegex.exec(candidate as string) !== null
+    );
+}
+
+// Add more/your own phone number validation here. The *rules* must be documented
+// and the client-side validation should match these rules.
+const phoneRegex = /^[0-9]{3}-[0-9]{3}-[0-9]{4}$/;
+
+/**
+ * Checks the parameter to see if it is a phone number in the form ###-###-####.
+ *
+ * @param {unknown} candidate the value to check
+ * @returns true if the parameter is a valid phone number, false otherwise
+ */
+function isValidPhone(candidate: unknown): boolean {
+    return (
+        isStringProvided(candidate) &&
+        phoneRegex.exec(candidate as string) !== null
+    );
+}
+
+// Add more/your own email validation here. The *rules* must be documented
+// and the client-side validation should match these rules.
+const emailRegex =
+    /^[a-zA-Z0-9.\-_]+@[a-zA-Z0-9\-$&_,~:!]+\.(com|net|edu|dev|gov|org)$/;
+
+/**
+ * Checks the parameter to see if it is an email address in the form a@b.c, where c is
+ * one of com, net, edu, dev, gov or org.
+ *
+ * @param {unknown} candidate the value to check
+ * @returns true if the parameter is a valid email address, false otherwise
+ */
+function isValidEmail(candidate: unknown): boolean {
+    return (
+        isStringProvided(candidate) &&
+        emailRegex.exec(candidate as string) !== null
+    );
+}
+
+const nameRegex = /^[a-zA-Z']+$/;
+
+/**
+ * Checks the parameter to see if it is a name made of letters and apostrophes.
+ *
+ * @param {unknown} candidate the value to check
+ * @returns true if the parameter is a valid name, false otherwise
+ */
+function isValidName(candidate: unknown): boolean {
+    return (
+        isStringProvided(candidate) &&
+        nameRegex.exec(candidate as string) !== null
+    );
+}
+
+const usernameRegex = /^[a-zA-Z0-9_.]+$/;
+
+/**
+ * Checks the parameter to see if it is a username made of letters, numbers,
+ * underscores and periods.
+ *
+ * @param {unknown} candidate the value to check
+ * @returns true if the parameter is a valid username, false otherwise
+ */
+function isValidUsername(candidate: unknown): boolean {
+    return (
+        isStringProvided(candidate) &&
+        usernameRegex.exec(candidate as string) !== null
+    );
+}
+
 // Feel free to add your own validations functions!
 // for example: isNumericProvided, isValidPassword, isValidEmail, etc
 // don't forget to export any
@@ -49,6 +148,12 @@ function isNumber(x: any): x is number {
 const validationFunctions = {
     isStringProvided,
     isNumberProvided,
+    isDateProvided,
+    isValidPassword,
+    isValidPhone,
+    isValidEmail,
+    isValidName,
+    isValidUsername,
 };
 
 export { validationFunctions };
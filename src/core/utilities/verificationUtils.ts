@@ -0,0 +1,54 @@
+import { Pool, PoolClient } from 'pg';
+
+import { pool } from './sql_conn';
+import { tokenFunctions } from './tokenUtils';
+import { mailFunctions } from './mailUtils';
+
+// Where the link in the verification email points
+const apiUrl =
+    process.env.API_URL ?? 'http://localhost:' + (process.env.PORT ?? 4001);
+
+const verificationTokenLifetimeHours = 24;
+
+/**
+ * Creates a verification token for an account and emails it a link to confirm its
+ * email address. Tokens sent earlier stay valid until they expire or one is used.
+ *
+ * @param account the account to verify
+ * @param client the pool, or the client of an open transaction, to store the token with
+ */
+async function sendVerificationEmail(
+    account: { id: number; email: string; firstname: string },
+    client: Pool | PoolClient = pool
+): Promise<void> {
+    const token = tokenFunctions.generateToken();
+    await client.query(
+        `INSERT INTO Email_Verifications (account_id, token_hash, expires_at)
+        VALUES ($1, $2, NOW() + make_interval(hours => $3))`,
+        [
+            account.id,
+            tokenFunctions.hashToken(token),
+            verificationTokenLifetimeHours,
+        ]
+    );
+    await mailFunctions.sendMail({
+        to: account.email,
+        subject: 'Verify your email address',
+        text:
+            'Hi ' +
+            account.firstname +
+            ',\n\nConfirm this is your email address by visiting ' +
+            apiUrl +
+            '/verify-email?token=' +
+            token +
+            '\n\nThe link expires in ' +
+            verificationTokenLifetimeHours +
+            ' hours.',
+    });
+}
+
+const verificationFunctions = {
+    sendVerificationEmail,
+};
+
+export { verificationFunctions };
@@ -3,17 +3,22 @@ import express, { Express, Request, Response } from 'express';
 import cors from 'cors';
 
 import { routes } from './routes';
+import { assignRequestId, handleErrors, notFound } from './core/middleware';
 
 const app: Express = express();
 
 const PORT: number = parseInt(process.env.PORT) || 4001;
 
-app.use(cors());
+app.use(cors({ exposedHeaders: ['X-Request-Id'] }));
+
+app.use(assignRequestId);
 
 /*
- * This middleware function parses JSON in the body of POST requests
+ * This middleware function parses JSON in the body of POST requests. POST /books/import
+ * parses its own body, which may be larger than the default limit. Express matches routes
+ * whatever their case, so the path here is skipped whatever its case too
  */
-app.use(express.json());
+app.use(/^(?!\/books\/import\/?$)/i, express.json());
 
 app.use(routes);
 
@@ -21,6 +26,13 @@ app.get('/', (request: Request, response: Response) => {
     response.send('<h1>Hello World!</h1>');
 });
 
+/*
+ * Every error passed to next, and every request matching no route, is sent to the
+ * client as { code, message, details, requestId }. These must be registered last.
+ */
+app.use(notFound);
+app.use(handleErrors);
+
 app.listen(PORT, () => {
     return console.log(`Express is listening at http://localhost:${PORT}`);
 });
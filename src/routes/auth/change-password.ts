@@ -1,21 +1,25 @@
 // express is the framework we're going to use to handle requests
-import express, { Request, Response, Router, NextFunction } from 'express';
+import express, { Response, Router, NextFunction } from 'express';
 
 import jwt from 'jsonwebtoken';
 
 import {
-    pool,
     validationFunctions,
     credentialingFunctions,
+    tokenFunctions,
+    signinFunctions,
 } from '../../core/utilities';
+import { validate } from '../../core/middleware';
+import {
+    IRequestSchemas,
+    IValidRequest,
+    BadRequestError,
+    TooManyRequestsError,
+} from '../../core/models';
 
-export interface IUserRequest extends Request {
-    id: number;
-}
-
-const isStringProvided = validationFunctions.isStringProvided;
-const generateSalt = credentialingFunctions.generateSalt;
-const generateHash = credentialingFunctions.generateHash;
+const setPassword = credentialingFunctions.setPassword;
+const revokeAllTokens = tokenFunctions.revokeAllTokens;
+const authenticate = signinFunctions.authenticate;
 
 const changePasswordRouter: Router = express.Router();
 
@@ -23,9 +27,32 @@ const key = {
     secret: process.env.JSON_WEB_TOKEN,
 };
 
-const passRegex = /^[a-zA-Z0-9!@#$%^&*_]{8,20}$/;
-const isValidPassword = (password: string): boolean =>
-    isStringProvided(password) && passRegex.exec(password) !== null;
+const isValidPassword = validationFunctions.isValidPassword;
+
+const changePasswordSchema = {
+    body: {
+        username: {
+            type: 'string',
+            message: 'Missing username - please refer to documentation',
+        },
+        oldPassword: {
+            type: 'string',
+            message: 'Missing old password - please refer to documentation',
+        },
+        newPassword: {
+            type: 'string',
+            check: isValidPassword,
+            message:
+                'New password does not match required format - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+export interface IUserRequest extends IValidRequest<
+    typeof changePasswordSchema
+> {
+    id: number;
+}
 
 /**
  * @api {put} /change-password Request to change the password for a given account
@@ -39,155 +66,69 @@ const isValidPassword = (password: string): boolean =>
  * using your password to login, capitalization matters.
 
  *
- * @apiBody {string} username The username for the registered user.
+ * @apiBody {string} username The username or email address of the registered user. Case-insensitive.
  * @apiBody {string} oldPassword The password matching the login credentials for the registered user.
  * @apiBody {string} newPassword A new password to be set for the credentialed user. Must match the format as described in the API description.
  *
  * @apiSuccess {string} message <code>"Successfully changed password for \<username\>!"</code>
  *
+ * Changing the password revokes every access token and refresh token issued to the account.
+ *
+ * @apiUse ErrorEnvelope
  * @apiError (400: Missing Username) {String} message <code>"Missing username - please refer to documentation"</code>
  * @apiError (400: Missing Old Password) {String} message <code>"Missing old password - please refer to documentation"</code>
  * @apiError (400: Invalid New Password) {String} message <code>"New password does not match required format - please refer to documentation"</code>
+ * @apiUse ValidationErrors
  * @apiError (400: Invalid Credentials) {String} message <code>"Invalid Credentials"</code>
  *
- * Occurs when either the supplied username does not exist in the dataset or the supplied password does not match the entry in the dataset.
+ * Occurs when either the supplied username does not exist in the dataset, the supplied password does not match the entry in the dataset,
+ * or the account is locked. Failed attempts count towards the same lockout as <code>POST /login</code>.
+ * @apiError (429: Too Many Attempts) {String} message <code>"Too many failed sign in attempts - try again later"</code>
  */
 changePasswordRouter.put(
     '/change-password',
-    (request: Request, response: Response, next: NextFunction) => {
-        if ( isStringProvided(request.body.username) ) {
-            next();
-        } else {
-            response.status(400).send({
-                message: 'Missing username - please refer to documentation',
-            });
-        }
-    },
-    (request: Request, response: Response, next: NextFunction) => {
-        if ( isStringProvided(request.body.oldPassword) ) {
-            next();
-        } else {
-            response.status(400).send({
-                message: 'Missing old password - please refer to documentation',
-            });
-        }
-    },
-    (request: Request, response: Response, next: NextFunction) => {
-        if ( isValidPassword(request.body.newPassword) ) {
-            next();
-        } else {
-            response.status(400).send({
-                message: 'New password does not match required format - please refer to documentation',
-            });
-        }
-    },
+    validate(changePasswordSchema),
     (request: IUserRequest, response: Response, next: NextFunction) => {
-        const theQuery = `SELECT salted_hash, salt, Account_Credential.account_id, account.email, account.firstname, account.lastname, account.phone, account.username FROM Account_Credential
-                      INNER JOIN Account ON
-                      Account_Credential.account_id=Account.account_id 
-                      WHERE Account.username=$1`;
-        const values = [request.body.username];
-        pool.query(theQuery, values)
-            .then((result) => {
-                if (result.rowCount == 0) {
-                    console.error('User not found');
-                    response.status(400).send({
-                        message: 'Invalid Credentials',
-                    });
-                    return;
-                } else if (result.rowCount > 1) {
-                    //log the error
-                    console.error(
-                        'DB Query error on sign in: too many results returned'
+        authenticate(
+            request.valid.body.username,
+            request.valid.body.oldPassword,
+            request.ip,
+            false
+        )
+            .then((attempt) => {
+                if (attempt.status == 'throttled') {
+                    next(
+                        new TooManyRequestsError(
+                            'Too many failed sign in attempts - try again later'
+                        )
                     );
-                    response.status(500).send({
-                        message: 'server error - contact support',
-                    });
-                    return;
-                }
-
-                //Retrieve the salt used to create the salted-hash provided from the DB
-                const salt = result.rows[0].salt;
-
-                //Retrieve the salted-hash password provided from the DB
-                const storedSaltedHash = result.rows[0].salted_hash;
-
-                //Generate a hash based on the stored salt and the provided password
-                const providedSaltedHash = generateHash(
-                    request.body.oldPassword,
-                    salt
-                );
-
-                //Did our salted hash match their salted hash?
-                if (storedSaltedHash === providedSaltedHash) {
+                } else if (attempt.status == 'invalid') {
+                    console.error('Credentials did not match');
+                    next(new BadRequestError('Invalid Credentials'));
+                } else {
                     //credentials match.
-                    // NOTE: needs testing
-                    request.id = result.rows[0].account_id;
+                    request.id = attempt.row.account_id;
                     next();
-                } else {
-                    console.error('Credentials did not match');
-                    //credentials dod not match
-                    response.status(400).send({
-                        message: 'Invalid Credentials',
-                    });
                 }
             })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on sign in');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
-            });
+            .catch((error) => next(error));
     },
     (request: IUserRequest, response: Response, next: NextFunction) => {
-        // REMOVE OLD PASSWORD
-        const theQuery =
-            'DELETE FROM Account_Credential WHERE account_id=$1';
-        const values = [request.id];
-        pool.query(theQuery, values)
-            .then(() => {
-                console.dir("Successfully deleted old password for user: " + request.body.username);
-                next();
-            })
-            .catch((error) => {
-                //log the error
-                console.error('Error on DB Query to remove old password.');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
-            });
-    },
-    (request: IUserRequest, response: Response) => {
-        // ADD NEW PASSWORD
-        const salt = generateSalt(32);
-        const saltedHash = generateHash(request.body.newPassword, salt);
-
-        const theQuery =
-            'INSERT INTO Account_Credential(account_id, salted_hash, salt) VALUES ($1, $2, $3)';
-        const values = [request.id, saltedHash, salt];
-        pool.query(theQuery, values)
+        // REPLACE OLD PASSWORD
+        setPassword(request.id, request.valid.body.newPassword)
+            // sign the account out everywhere the old password was used
+            .then(() => revokeAllTokens(request.id))
             .then(() => {
                 //We successfully changed the password!
                 response.status(200).send({
-                    message: 'Successfully changed password for ' + request.body.username + '!'
+                    message:
+                        'Successfully changed password for ' +
+                        request.valid.body.username +
+                        '!',
                 });
             })
-            .catch((error) => {
-                // If this error were to occur, there would not exist an account credential
-                // for the user, which would be catastrophic. Probably should be accounted
-                // for in this block.
-                //log the error
-                console.error('Error adding new password for changed password.');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
-            });
+            .catch((error) => next(error));
     }
-
 );
 
 export { changePasswordRouter };
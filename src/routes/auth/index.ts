@@ -3,9 +3,19 @@ import express, { Router } from 'express';
 import { signinRouter } from './login';
 import { registerRouter } from './register';
 import { changePasswordRouter } from './change-password';
+import { tokensRouter } from './tokens';
+import { passwordResetRouter } from './reset-password';
+import { verifyEmailRouter } from './verify-email';
 
 const authRoutes: Router = express.Router();
 
-authRoutes.use(signinRouter, registerRouter, changePasswordRouter);
+authRoutes.use(
+    signinRouter,
+    registerRouter,
+    changePasswordRouter,
+    tokensRouter,
+    passwordResetRouter,
+    verifyEmailRouter
+);
 
 export { authRoutes };
@@ -1,16 +1,22 @@
 // express is the framework we're going to use to handle requests
-import express, { Request, Response, Router, NextFunction } from 'express';
-
-import jwt from 'jsonwebtoken';
+import express, { NextFunction, Request, Response, Router } from 'express';
 
 import {
-    pool,
-    validationFunctions,
     credentialingFunctions,
+    tokenFunctions,
+    signinFunctions,
 } from '../../core/utilities';
+import { validate } from '../../core/middleware';
+import {
+    IRequestSchemas,
+    IValidRequest,
+    BadRequestError,
+    TooManyRequestsError,
+    UnauthorizedError,
+} from '../../core/models';
 
 export interface Auth {
-    username: string;
+    identifier: string;
     password: string;
 }
 
@@ -18,140 +24,250 @@ export interface AuthRequest extends Request {
     auth: Auth;
 }
 
-const isStringProvided = validationFunctions.isStringProvided;
-const generateHash = credentialingFunctions.generateHash;
+const needsRehash = credentialingFunctions.needsRehash;
+const toCredential = credentialingFunctions.toCredential;
+const setPassword = credentialingFunctions.setPassword;
+const signAccessToken = tokenFunctions.signAccessToken;
+const issueRefreshToken = tokenFunctions.issueRefreshToken;
+const signChallengeToken = tokenFunctions.signChallengeToken;
+const verifyChallengeToken = tokenFunctions.verifyChallengeToken;
+const authenticate = signinFunctions.authenticate;
+const verifySecondFactor = signinFunctions.verifySecondFactor;
 
 const signinRouter: Router = express.Router();
 
-const key = {
-    secret: process.env.JSON_WEB_TOKEN,
-};
+const loginSchema = {
+    body: {
+        identifier: {
+            type: 'string',
+            optional: true,
+            message:
+                'Missing username or email - please refer to documentation',
+        },
+        // accepted in place of identifier for older clients
+        username: {
+            type: 'string',
+            optional: true,
+            message:
+                'Missing username or email - please refer to documentation',
+        },
+        password: {
+            type: 'string',
+            message: 'Missing password - please refer to documentation',
+        },
+    },
+    refine: (valid) =>
+        valid.body.identifier === undefined && valid.body.username === undefined
+            ? [
+                  {
+                      location: 'body',
+                      field: 'identifier',
+                      message:
+                          'Missing username or email - please refer to documentation',
+                  },
+              ]
+            : [],
+} satisfies IRequestSchemas;
+
+const twoFactorSchema = {
+    body: {
+        challengeToken: {
+            type: 'string',
+            message: 'Missing challenge token - please refer to documentation',
+        },
+        code: {
+            type: 'string',
+            message: 'Missing code - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+/**
+ * Sends a new JWT and refresh token for an account that has signed in.
+ *
+ * @param row the Account row of the account
+ * @param {Response} response the response to send the tokens with
+ */
+async function sendSignin(row, response: Response) {
+    const accessToken = signAccessToken({
+        name: row.firstname,
+        id: row.account_id,
+        role: row.account_role,
+    });
+    const refreshToken = await issueRefreshToken(row.account_id);
+
+    //package and send the results
+    response.status(200).json({
+        accessToken,
+        refreshToken,
+        user: {
+            name: row.firstname,
+            email: row.email,
+            role: row.account_role,
+            id: row.account_id,
+            verified: row.email_verified_at != null,
+        },
+    });
+}
 
 /**
  * @api {post} /login Request to sign a user in the system
  * @apiName PostLogin
  * @apiGroup Auth
  *
- * @apiDescription Return a newly created JWT for a user with a given username and password.
+ * @apiDescription Return a newly created JWT for a user with a given username or email address and password.
  *
- * @apiBody {string} username The username for the registered user.
+ * @apiBody {string} identifier The username or email address of the registered user. Case-insensitive.
+ * @apiBody {string} [username] Accepted in place of <code>identifier</code> for older clients.
  * @apiBody {string} password The password matching the login credentials for the registered user.
  *
- * @apiSuccess {string} accessToken JSON Web Token
+ * @apiSuccess {string} accessToken JSON Web Token. Expires 15 minutes after it is issued.
+ * @apiSuccess {string} refreshToken An opaque token to pass to <code>POST /refresh</code> for a new
+ * access token. Expires after 30 days, or when used.
  * @apiSuccess {Object} user A user object.
- * @apiSuccess {string} user.name The first name for the user associated with <code>username</code>.
- * @apiSuccess {string} user.email The email address for the user associated with <code>username</code>.
- * @apiSuccess {string} user.role The role for the user associated with <code>username</code>. Note that the backend always returns 1
- * as our backend does not account for roles.
- * @apiSuccess {string} user.id The id for the user associated with <code>username</code>.
+ * @apiSuccess {string} user.name The first name for the user associated with <code>identifier</code>.
+ * @apiSuccess {string} user.email The email address for the user associated with <code>identifier</code>.
+ * @apiSuccess {number} user.role The role for the user associated with <code>identifier</code>: 1 for readers, 2 for
+ * editors and 3 for admins. The role is also carried in the JWT.
+ * @apiSuccess {string} user.id The id for the user associated with <code>identifier</code>.
+ * @apiSuccess {boolean} user.verified Whether the user has confirmed their email address.
+ *
+ * @apiSuccess (200: Two-factor required) {boolean} twoFactorRequired <code>true</code> when the account has
+ * two-factor sign in turned on. No tokens are sent; pass the challenge token and a code to <code>POST /login/2fa</code>.
+ * @apiSuccess (200: Two-factor required) {string} challengeToken A token proving the password was correct. Expires after 5 minutes.
  *
- * @apiError (400: Missing Username) {String} message <code>"Missing username - please refer to documentation"</code>
- * @apiError (400: Invalid Password) {String} message <code>"Invalid or missing password - please refer to documentation"</code>
+ * @apiUse ErrorEnvelope
+ * @apiError (400: Missing Identifier) {String} message <code>"Missing username or email - please refer to documentation"</code>
+ * @apiError (400: Invalid Password) {String} message <code>"Missing password - please refer to documentation"</code>
+ * @apiUse ValidationErrors
  * @apiError (400: Invalid Credentials) {String} message <code>"Invalid Credentials"</code>
  *
- * Occurs when either the supplied username does not exist in the dataset or the supplied password does not match the entry in the dataset.
+ * Occurs when either the supplied username or email does not exist in the dataset, the supplied password does not match the entry in the dataset,
+ * or the account is locked. After 5 failed attempts in a row an account is locked for 15 minutes. Attempts while it is locked
+ * do not extend the lock, and the count starts over once the lock has passed. Each failed attempt from the same client IP is
+ * answered more slowly than the last.
+ * @apiError (429: Too Many Attempts) {String} message <code>"Too many failed sign in attempts - try again later"</code>
+ *
+ * Occurs after 20 failed attempts from the same client IP within 15 minutes. The IP is locked out for 15 minutes.
  *
  */
 signinRouter.post(
     '/login',
-    (request: AuthRequest, response: Response, next: NextFunction) => {
-        if ( isStringProvided(request.body.username) ) {
-            next();
-        } else {
-            response.status(400).send({
-                message: 'Missing username - please refer to documentation',
-            });
-        }
-    },
-    (request: AuthRequest, response: Response, next: NextFunction) => {
-        if ( isStringProvided(request.body.password) ) {
-            next();
-        } else {
-            response.status(400).send({
-                message: 'Missing password - please refer to documentation',
-            });
-        }
-    },
-    (request: AuthRequest, response: Response) => {
-        const theQuery = `SELECT salted_hash, salt, Account_Credential.account_id, account.email, account.firstname, account.lastname, account.phone, account.username FROM Account_Credential
-                      INNER JOIN Account ON
-                      Account_Credential.account_id=Account.account_id 
-                      WHERE Account.username=$1`;
-        const values = [request.body.username];
-        pool.query(theQuery, values)
-            .then((result) => {
-                if (result.rowCount == 0) {
-                    console.error('User not found');
-                    response.status(400).send({
-                        message: 'Invalid Credentials',
-                    });
-                    return;
-                } else if (result.rowCount > 1) {
-                    //log the error
-                    console.error(
-                        'DB Query error on sign in: too many results returned'
-                    );
-                    response.status(500).send({
-                        message: 'server error - contact support',
-                    });
-                    return;
-                }
-
-                //Retrieve the salt used to create the salted-hash provided from the DB
-                const salt = result.rows[0].salt;
-
-                //Retrieve the salted-hash password provided from the DB
-                const storedSaltedHash = result.rows[0].salted_hash;
-
-                //Generate a hash based on the stored salt and the provided password
-                const providedSaltedHash = generateHash(
-                    request.body.password,
-                    salt
+    validate(loginSchema),
+    async (
+        request: IValidRequest<typeof loginSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const body = request.valid.body;
+        try {
+            const attempt = await authenticate(
+                body.identifier ?? body.username,
+                body.password,
+                request.ip,
+                true
+            );
+            if (attempt.status == 'throttled') {
+                next(
+                    new TooManyRequestsError(
+                        'Too many failed sign in attempts - try again later'
+                    )
                 );
+                return;
+            } else if (attempt.status == 'invalid') {
+                console.error('Credentials did not match');
+                next(new BadRequestError('Invalid Credentials'));
+                return;
+            }
+            const row = attempt.row;
+            const credential = toCredential(row);
+
+            // upgrade legacy or weaker hashes now that we know the password
+            if (needsRehash(credential)) {
+                await setPassword(row.account_id, body.password);
+            }
 
-                //Did our salted hash match their salted hash?
-                if (storedSaltedHash === providedSaltedHash) {
-                    //credentials match. get a new JWT
-                    const accessToken = jwt.sign(
-                        {
-                            name: result.rows[0].firstname,
-                            id: result.rows[0].account_id,
-                        },
-                        key.secret,
-                        {
-                            expiresIn: '14 days', // expires in 14 days
-                        }
-                    );
-                    //package and send the results
-                    // response.json({
-                    //     accessToken,
-                    //     id: result.rows[0].account_id,
-                    // });
-                    response.status(200).json({
-                        accessToken,
-                        user: {
-                            name: result.rows[0].firstname,
-                            email: result.rows[0].email,
-                            role: 1,
-                            id: result.rows[0].account_id,
-                        },
-                    });
-                } else {
-                    console.error('Credentials did not match');
-                    //credentials dod not match
-                    response.status(400).send({
-                        message: 'Invalid Credentials',
-                    });
-                }
-            })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on sign in');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
+            // accounts with two-factor sign in need a code before they get a token
+            if (row.totp_enabled_at != null) {
+                response.status(200).json({
+                    twoFactorRequired: true,
+                    challengeToken: signChallengeToken(row.account_id),
                 });
-            });
+                return;
+            }
+
+            await sendSignin(row, response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+/**
+ * @api {post} /login/2fa Complete a two-factor sign in
+ * @apiName PostLoginTwoFactor
+ * @apiGroup Auth
+ *
+ * @apiDescription Exchange the challenge token from <code>POST /login</code> and a code for a JWT. The code is
+ * either the current 6 digit code from the authenticator app or one of the unused recovery codes. Each code
+ * can only be used once. Failed codes count towards the same lockout as failed passwords.
+ *
+ * @apiBody {string} challengeToken The challenge token from <code>POST /login</code>.
+ * @apiBody {string} code A code from the authenticator app, or a recovery code.
+ *
+ * @apiSuccess {string} accessToken JSON Web Token. Expires 15 minutes after it is issued.
+ * @apiSuccess {string} refreshToken An opaque token to pass to <code>POST /refresh</code> for a new access token.
+ * @apiSuccess {Object} user A user object, the same as from <code>POST /login</code>.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiError (400: Missing Challenge Token) {String} message <code>"Missing challenge token - please refer to documentation"</code>
+ * @apiError (400: Missing Code) {String} message <code>"Missing code - please refer to documentation"</code>
+ * @apiUse ValidationErrors
+ * @apiError (401: Invalid Challenge Token) {String} message <code>"Challenge token is not valid or has expired"</code>
+ * @apiError (400: Invalid Code) {String} message <code>"Invalid Credentials"</code>
+ * @apiError (429: Too Many Attempts) {String} message <code>"Too many failed sign in attempts - try again later"</code>
+ */
+signinRouter.post(
+    '/login/2fa',
+    validate(twoFactorSchema),
+    async (
+        request: IValidRequest<typeof twoFactorSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const accountId = verifyChallengeToken(
+            request.valid.body.challengeToken
+        );
+        if (accountId == null) {
+            next(
+                new UnauthorizedError(
+                    'Challenge token is not valid or has expired'
+                )
+            );
+            return;
+        }
+
+        try {
+            const attempt = await verifySecondFactor(
+                accountId,
+                request.valid.body.code,
+                request.ip
+            );
+            if (attempt.status == 'throttled') {
+                next(
+                    new TooManyRequestsError(
+                        'Too many failed sign in attempts - try again later'
+                    )
+                );
+            } else if (attempt.status == 'invalid') {
+                console.error('Two-factor code did not match');
+                next(new BadRequestError('Invalid Credentials'));
+            } else {
+                await sendSignin(attempt.row, response);
+            }
+        } catch (error) {
+            next(error);
+        }
     }
 );
 
@@ -1,72 +1,80 @@
 // express is the framework we're going to use to handle requests
-import express, { Request, Response, Router, NextFunction } from 'express';
-
-import jwt from 'jsonwebtoken';
-
-const key = {
-    secret: process.env.JSON_WEB_TOKEN,
-};
+import express, { Response, Router, NextFunction } from 'express';
 
 import {
     pool,
     validationFunctions,
     credentialingFunctions,
+    tokenFunctions,
+    verificationFunctions,
 } from '../../core/utilities';
+import { validate } from '../../core/middleware';
+import { IRequestSchemas, IValidRequest, Role } from '../../core/models';
 
-const isStringProvided = validationFunctions.isStringProvided;
 const isNumberProvided = validationFunctions.isNumberProvided;
 const generateHash = credentialingFunctions.generateHash;
 const generateSalt = credentialingFunctions.generateSalt;
+const setPassword = credentialingFunctions.setPassword;
+const signAccessToken = tokenFunctions.signAccessToken;
+const issueRefreshToken = tokenFunctions.issueRefreshToken;
+const sendVerificationEmail = verificationFunctions.sendVerificationEmail;
 
 const registerRouter: Router = express.Router();
 
-export interface IUserRequest extends Request {
-    id: number;
-}
-
-const passRegex = /^[a-zA-Z0-9!@#$%^&*_]{8,20}$/;
-const isValidPassword = (password: string): boolean =>
-    isStringProvided(password) && passRegex.exec(password) !== null;
+const isValidPassword = validationFunctions.isValidPassword;
 
-// Add more/your own phone number validation here. The *rules* must be documented
-// and the client-side validation should match these rules.
-const phoneRegex = /^[0-9]{3}-[0-9]{3}-[0-9]{4}$/;
-const isValidPhone = (phone: string): boolean =>
-    isStringProvided(phone) && phoneRegex.exec(phone) !== null;
+const isValidPhone = validationFunctions.isValidPhone;
+const isValidEmail = validationFunctions.isValidEmail;
+const isValidName = validationFunctions.isValidName;
+const isValidUsername = validationFunctions.isValidUsername;
 
-// Add more/your own email validation here. The *rules* must be documented
-// and the client-side validation should match these rules.
-const emailRegex = /^[a-zA-Z0-9.\-_]+@[a-zA-Z0-9\-$&_,~:!]+\.(com|net|edu|dev|gov|org)$/;
-const isValidEmail = (email: string): boolean =>
-    isStringProvided(email) && emailRegex.exec(email) !== null;
-
-const nameRegex = /^[a-zA-Z']+$/;
-const isValidName = (name: string): boolean =>
-    isStringProvided(name) && nameRegex.exec(name) !== null;
-
-const usernameRegex = /^[a-zA-Z0-9_.]+$/;
-const isValidUsername = (username: string): boolean =>
-    isStringProvided(username) && usernameRegex.exec(username) !== null;
-
-
-// middleware functions may be defined elsewhere!
-const emailMiddlewareCheck = (
-    request: Request,
-    response: Response,
-    next: NextFunction
-) => {
-    if (isValidEmail(request.body.email)) {
-        next();
-    } else {
-        response.status(400).send({
+const registerSchema = {
+    body: {
+        email: {
+            type: 'string',
+            check: isValidEmail,
             message: 'Invalid or missing email - please refer to documentation',
-        });
-    }
-};
+        },
+        firstname: {
+            type: 'string',
+            check: isValidName,
+            message:
+                'Invalid or missing first name - please refer to documentation',
+        },
+        lastname: {
+            type: 'string',
+            check: isValidName,
+            message:
+                'Invalid or missing last name - please refer to documentation',
+        },
+        username: {
+            type: 'string',
+            check: isValidUsername,
+            message:
+                'Invalid or missing username - please refer to documentation',
+        },
+        phone: {
+            type: 'string',
+            check: isValidPhone,
+            message:
+                'Invalid or missing phone number - please refer to documentation',
+        },
+        password: {
+            type: 'string',
+            check: isValidPassword,
+            message:
+                'Invalid or missing password - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+export interface IUserRequest extends IValidRequest<typeof registerSchema> {
+    id: number;
+}
 
 /**
  * @api {post} /register Request to register a user
- * 
+ *
  * @apiName PostRegister
  * @apiGroup Auth
  *
@@ -74,8 +82,8 @@ const emailMiddlewareCheck = (
  *
  * <strong>Email rules</strong>: Emails must follow the format of <code>a@b.c</code> where <code>a</code> and <code>b</code> is any string of
  * characters of length greater than zero, and <code>c</code> is some TLD matching one of <code>com</code>, <code>net</code>, <code>edu</code>,
- * <code>dev</code>, <code>gov</code>, and <code>org</code>. Emails between accounts must be unique to that account. Note that missing parameters
- * will return a <code>400: Error</code> only for individual missing fields at a time.
+ * <code>dev</code>, <code>gov</code>, and <code>org</code>. Emails between accounts must be unique to that account. Every missing or
+ * invalid field is listed in <code>details</code> of a single <code>400: Invalid request</code>.
  *
  * <strong>Password rules</strong>: Passwords must be have a string length between 8 and 20 characters, inclusive. Passwords may contain any combination
  * of letters, numbers, and/or special characters in the set of: <code>!, @, #, $, %, ^, &, *, _</code>. Passwords are stored in a case-sensitive manner.
@@ -92,20 +100,26 @@ const emailMiddlewareCheck = (
  * well as underscores and periods. Length must be greater than one. Case-sensitive.
  * @apiBody {string} phone A unique phone number for this user. For detailed formatting details please read API description.
  *
- * @apiSuccess {string} accessToken JSON Web Token
+ * @apiSuccess {string} accessToken JSON Web Token. Expires 15 minutes after it is issued.
+ * @apiSuccess {string} refreshToken An opaque token to pass to <code>POST /refresh</code> for a new
+ * access token. Expires after 30 days, or when used.
  * @apiSuccess {Object} user A user object.
  * @apiSuccess {string} user.name The first name for the user associated with <code>username</code>.
  * @apiSuccess {string} user.email The email address for the user associated with <code>username</code>.
- * @apiSuccess {string} user.role The role for the user associated with <code>username</code>. Note that the backend always returns 1
- * as our backend does not account for roles.
+ * @apiSuccess {number} user.role The role for the user associated with <code>username</code>. New accounts are always
+ * readers (1); an admin may promote them later.
  * @apiSuccess {string} user.id The id for the user associated with <code>username</code>.
+ * @apiSuccess {boolean} user.verified Always false: a verification link is emailed to <code>email</code>,
+ * see <code>GET /verify-email</code>.
  *
+ * @apiUse ErrorEnvelope
  * @apiError (400: Missing First Name) {String} message <code>"Invalid or missing first name - please refer to documentation"</code>
  * @apiError (400: Missing Last Name) {String} message <code>"Invalid or missing last name - please refer to documentation"</code>
  * @apiError (400: Missing Username) {String} message <code>"Invalid or missing username - please refer to documentation"</code>
  * @apiError (400: Invalid Password) {String} message <code>"Invalid or missing password - please refer to documentation"</code>
  * @apiError (400: Invalid Phone) {String} message <code>"Invalid or missing phone number - please refer to documentation"</code>
  * @apiError (400: Invalid Email) {String} message <code>"Invalid or missing email - please refer to documentation"</code>
+ * @apiUse ValidationErrors
  * @apiError (400: Username exists) {String} message <code>"Username exists"</code>
  * @apiError (400: Email exists) {String} message <code>"Email exists"</code>
  * @apiError (400: Phone number exists) {String} message <code>"Phone number exists"</code>
@@ -113,63 +127,16 @@ const emailMiddlewareCheck = (
  */
 registerRouter.post(
     '/register',
-    emailMiddlewareCheck, // these middleware functions may be defined elsewhere!
-    (request: Request, response: Response, next: NextFunction) => {
-        if (isValidName(request.body.firstname)) {
-            next();
-        } else {
-            response.status(400).send({
-                message: 'Invalid or missing first name - please refer to documentation',
-            });
-        }
-    },
-    (request: Request, response: Response, next: NextFunction) => {
-        if (isValidName(request.body.lastname)) {
-            next();
-        } else {
-            response.status(400).send({
-                message: 'Invalid or missing last name - please refer to documentation',
-            });
-        }
-    },
-    (request: Request, response: Response, next: NextFunction) => {
-        if (isValidUsername(request.body.username)) {
-            next();
-        } else {
-            response.status(400).send({
-                message: 'Invalid or missing username - please refer to documentation',
-            });
-        }
-    },
-    (request: Request, response: Response, next: NextFunction) => {
-        if (isValidPhone(request.body.phone)) {
-            next();
-        } else {
-            response.status(400).send({
-                message:
-                    'Invalid or missing phone number - please refer to documentation',
-            });
-        }
-    },
-    (request: Request, response: Response, next: NextFunction) => {
-        if (isValidPassword(request.body.password)) {
-            next();
-        } else {
-            response.status(400).send({
-                message:
-                    'Invalid or missing password - please refer to documentation',
-            });
-        }
-    },
+    validate(registerSchema),
     (request: IUserRequest, response: Response, next: NextFunction) => {
         const theQuery =
             'INSERT INTO Account(firstname, lastname, username, email, phone) VALUES ($1, $2, $3, $4, $5) RETURNING account_id';
         const values = [
-            request.body.firstname,
-            request.body.lastname,
-            request.body.username,
-            request.body.email,
-            request.body.phone,
+            request.valid.body.firstname,
+            request.valid.body.lastname,
+            request.valid.body.username,
+            request.valid.body.email,
+            request.valid.body.phone,
         ];
         // console.dir({ ...request.body, password: '******' });
         pool.query(theQuery, values)
@@ -179,63 +146,40 @@ registerRouter.post(
                 request.id = result.rows[0].account_id;
                 next();
             })
-            .catch((error) => {
-                //log the error
-                // console.log(error)
-                if (error.constraint == 'account_username_key') {
-                    response.status(400).send({
-                        message: 'Username exists',
-                    });
-                } else if (error.constraint == 'account_email_key') {
-                    response.status(400).send({
-                        message: 'Email exists',
-                    });
-                } else if (error.constraint == 'account_phone_key') {
-                    response.status(400).send({
-                        message: 'Phone number exists'
-                    });
-                } else {
-                    //log the error
-                    console.error('DB Query error on register');
-                    console.error(error);
-                    response.status(500).send({
-                        message: 'server error - contact support',
-                    });
-                }
-            });
+            // a taken username, email or phone number is reported by its constraint
+            .catch((error) => next(error));
     },
-    (request: IUserRequest, response: Response) => {
+    (request: IUserRequest, response: Response, next: NextFunction) => {
         //We're storing salted hashes to make our application more secure
         //If you're interested as to what that is, and why we should use it
         //watch this youtube video: https://www.youtube.com/watch?v=8ZtInClXe1Q
-        const salt = generateSalt(32);
-        const saltedHash = generateHash(request.body.password, salt);
-
-        const theQuery =
-            'INSERT INTO Account_Credential(account_id, salted_hash, salt) VALUES ($1, $2, $3)';
-        const values = [request.id, saltedHash, salt];
-        pool.query(theQuery, values)
-            .then(() => {
-                const accessToken = jwt.sign(
-                    {
-                        name: request.body.firstname,
-                        id: request.id,
-                    },
-                    key.secret,
-                    {
-                        expiresIn: '14 days', // expires in 14 days
-                    }
-                );
-                console.dir({ ...request.body, password: '******' });
+        setPassword(request.id, request.valid.body.password)
+            .then(() =>
+                sendVerificationEmail({
+                    id: request.id,
+                    email: request.valid.body.email,
+                    firstname: request.valid.body.firstname,
+                })
+            )
+            .then(() => issueRefreshToken(request.id))
+            .then((refreshToken) => {
+                const accessToken = signAccessToken({
+                    name: request.valid.body.firstname,
+                    id: request.id,
+                    role: Role.Reader,
+                });
+                console.dir({ ...request.valid.body, password: '******' });
                 //We successfully added the user!
                 response.status(201).send({
                     accessToken,
+                    refreshToken,
                     user: {
-                        name: request.body.firstname,
-                        email: request.body.email,
-                        role: 1,
-                        id: request.id
-                    }
+                        name: request.valid.body.firstname,
+                        email: request.valid.body.email,
+                        role: Role.Reader,
+                        id: request.id,
+                        verified: false,
+                    },
                 });
             })
             .catch((error) => {
@@ -248,12 +192,7 @@ registerRouter.post(
                 // TODO
                 // currently not implementing previous comment
 
-                //log the error
-                console.error('DB Query error on register');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
+                next(error);
             });
     }
 );
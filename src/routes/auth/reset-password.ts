@@ -0,0 +1,221 @@
+// express is the framework we're going to use to handle requests
+import express, { Response, Router, NextFunction } from 'express';
+import { PoolClient } from 'pg';
+
+import { validate } from '../../core/middleware';
+import {
+    IRequestSchemas,
+    IValidRequest,
+    BadRequestError,
+} from '../../core/models';
+import {
+    pool,
+    validationFunctions,
+    credentialingFunctions,
+    tokenFunctions,
+    mailFunctions,
+} from '../../core/utilities';
+
+const isValidPassword = validationFunctions.isValidPassword;
+const setPassword = credentialingFunctions.setPassword;
+const generateToken = tokenFunctions.generateToken;
+const hashToken = tokenFunctions.hashToken;
+const revokeAllTokens = tokenFunctions.revokeAllTokens;
+const sendMail = mailFunctions.sendMail;
+
+const passwordResetRouter: Router = express.Router();
+
+const resetTokenLifetimeMinutes = 60;
+
+const missingAccountMessage =
+    'Missing email or username - please refer to documentation';
+
+const forgotPasswordSchema = {
+    body: {
+        email: {
+            type: 'string',
+            optional: true,
+            message: missingAccountMessage,
+        },
+        username: {
+            type: 'string',
+            optional: true,
+            message: missingAccountMessage,
+        },
+    },
+    refine: ({ body }) =>
+        body.email === undefined && body.username === undefined
+            ? [
+                  {
+                      location: 'body',
+                      field: 'email',
+                      message: missingAccountMessage,
+                  },
+              ]
+            : [],
+} satisfies IRequestSchemas;
+
+const resetPasswordSchema = {
+    body: {
+        token: {
+            type: 'string',
+            message: 'Missing token - please refer to documentation',
+        },
+        newPassword: {
+            type: 'string',
+            check: isValidPassword,
+            message:
+                'New password does not match required format - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+/**
+ * @api {post} /forgot-password Request a password reset
+ * @apiName PostForgotPassword
+ * @apiGroup Auth
+ *
+ * @apiDescription Email a single use password reset token to the account matching an email
+ * address or username. The token expires after 60 minutes, and requesting another token
+ * invalidates any earlier one. The response is the same whether or not an account
+ * matches, so this endpoint cannot be used to discover accounts.
+ *
+ * @apiBody {string} [email] The email address of the account, in any case. Required if <code>username</code> is not provided.
+ * @apiBody {string} [username] The username of the account, in any case. Required if <code>email</code> is not provided.
+ *
+ * @apiSuccess {string} message <code>"If the account exists, a password reset email has been sent"</code>
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (400: Missing Email or Username) {String} message "Missing email or username - please refer to documentation"
+ */
+passwordResetRouter.post(
+    '/forgot-password',
+    validate(forgotPasswordSchema),
+    async (
+        request: IValidRequest<typeof forgotPasswordSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        try {
+            const account = await pool.query(
+                'SELECT account_id, firstname, email FROM Account WHERE LOWER(email) = LOWER($1) OR LOWER(username) = LOWER($2)',
+                [
+                    request.valid.body.email ?? null,
+                    request.valid.body.username ?? null,
+                ]
+            );
+
+            if (account.rowCount == 1) {
+                const token = generateToken();
+                await pool.query(
+                    `WITH replaced AS (
+                        UPDATE Password_Resets SET used_at = NOW()
+                        WHERE account_id = $1 AND used_at IS NULL
+                    )
+                    INSERT INTO Password_Resets (account_id, token_hash, expires_at)
+                    VALUES ($1, $2, NOW() + make_interval(mins => $3))`,
+                    [
+                        account.rows[0].account_id,
+                        hashToken(token),
+                        resetTokenLifetimeMinutes,
+                    ]
+                );
+                await sendMail({
+                    to: account.rows[0].email,
+                    subject: 'Reset your password',
+                    text:
+                        'Hi ' +
+                        account.rows[0].firstname +
+                        ',\n\nUse this token with POST /reset-password to choose a new password: ' +
+                        token +
+                        '\n\nThe token expires in ' +
+                        resetTokenLifetimeMinutes +
+                        ' minutes. If you did not ask to reset your password, ignore this email.',
+                });
+            }
+
+            response.status(200).send({
+                message:
+                    'If the account exists, a password reset email has been sent',
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+/**
+ * @api {post} /reset-password Reset a password with an emailed token
+ * @apiName PostResetPassword
+ * @apiGroup Auth
+ *
+ * @apiDescription Set a new password with a token from <code>POST /forgot-password</code>.
+ * The token can only be used once. Resetting the password revokes every access token and
+ * refresh token issued to the account.
+ *
+ * <strong>New password rules</strong>: the same as <code>PUT /change-password</code>.
+ *
+ * @apiBody {string} token The password reset token from the email.
+ * @apiBody {string} newPassword A new password to be set for the account. Must match the format as described in the API description.
+ *
+ * @apiSuccess {string} message <code>"Successfully reset password"</code>
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (400: Missing Token) {String} message "Missing token - please refer to documentation"
+ * @apiError (400: Invalid New Password) {String} message "New password does not match required format - please refer to documentation"
+ * @apiError (400: Invalid Token) {String} message "Reset token is not valid or has expired"
+ */
+passwordResetRouter.post(
+    '/reset-password',
+    validate(resetPasswordSchema),
+    async (
+        request: IValidRequest<typeof resetPasswordSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        let client: PoolClient;
+        try {
+            client = await pool.connect();
+            await client.query('BEGIN');
+
+            // consume the token so it cannot be used again
+            const reset = await client.query(
+                `UPDATE Password_Resets SET used_at = NOW()
+                WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+                RETURNING account_id`,
+                [hashToken(request.valid.body.token)]
+            );
+            if (reset.rowCount == 0) {
+                await client.query('ROLLBACK');
+                next(
+                    new BadRequestError(
+                        'Reset token is not valid or has expired'
+                    )
+                );
+                return;
+            }
+
+            const accountId: number = reset.rows[0].account_id;
+            await setPassword(
+                accountId,
+                request.valid.body.newPassword,
+                client
+            );
+            await revokeAllTokens(accountId, client);
+
+            await client.query('COMMIT');
+            response.status(200).send({
+                message: 'Successfully reset password',
+            });
+        } catch (error) {
+            await client?.query('ROLLBACK');
+            next(error);
+        } finally {
+            client?.release();
+        }
+    }
+);
+
+export { passwordResetRouter };
@@ -0,0 +1,192 @@
+// express is the framework we're going to use to handle requests
+import express, { Response, Router, NextFunction } from 'express';
+import { PoolClient } from 'pg';
+
+import { validate } from '../../core/middleware';
+import {
+    IRequestSchemas,
+    IRule,
+    IValidRequest,
+    UnauthorizedError,
+} from '../../core/models';
+import { pool, tokenFunctions } from '../../core/utilities';
+
+const signAccessToken = tokenFunctions.signAccessToken;
+const hashToken = tokenFunctions.hashToken;
+const issueRefreshToken = tokenFunctions.issueRefreshToken;
+const revokeAllTokens = tokenFunctions.revokeAllTokens;
+
+const tokensRouter: Router = express.Router();
+
+const refreshTokenRule = {
+    type: 'string',
+    message: 'Missing refresh token - please refer to documentation',
+} satisfies IRule;
+
+const refreshSchema = {
+    body: {
+        refreshToken: refreshTokenRule,
+    },
+} satisfies IRequestSchemas;
+
+const logoutSchema = {
+    body: {
+        refreshToken: refreshTokenRule,
+        everywhere: {
+            type: 'boolean',
+            optional: true,
+            default: false,
+            message: 'Invalid everywhere flag - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+/**
+ * @api {post} /refresh Request a new access token
+ * @apiName PostRefresh
+ * @apiGroup Auth
+ *
+ * @apiDescription Trade a refresh token for a new access token and a new refresh token.
+ * A refresh token can only be used once. Presenting a refresh token that was already used
+ * revokes every refresh token descended from the same sign in, since the token has likely
+ * been stolen.
+ *
+ * @apiBody {string} refreshToken The refresh token from the last sign in or refresh.
+ *
+ * @apiSuccess {string} accessToken JSON Web Token. Expires 15 minutes after it is issued.
+ * @apiSuccess {string} refreshToken The refresh token to use next time. Expires after 30 days, or when used.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (400: Missing Refresh Token) {String} message "Missing refresh token - please refer to documentation"
+ * @apiError (401: Invalid Refresh Token) {String} message "Refresh token is not valid"
+ */
+tokensRouter.post(
+    '/refresh',
+    validate(refreshSchema),
+    async (
+        request: IValidRequest<typeof refreshSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        let client: PoolClient;
+        try {
+            client = await pool.connect();
+            await client.query('BEGIN');
+
+            const result = await client.query(
+                `SELECT Refresh_Tokens.token_id, Refresh_Tokens.family_id, Refresh_Tokens.revoked_at,
+                    Refresh_Tokens.expires_at < NOW() AS expired,
+                    Account.account_id, Account.firstname, Account.account_role
+                FROM Refresh_Tokens
+                INNER JOIN Account ON Refresh_Tokens.account_id = Account.account_id
+                WHERE Refresh_Tokens.token_hash = $1
+                FOR UPDATE OF Refresh_Tokens`,
+                [hashToken(request.valid.body.refreshToken)]
+            );
+
+            if (result.rowCount == 0 || result.rows[0].expired) {
+                await client.query('ROLLBACK');
+                next(new UnauthorizedError('Refresh token is not valid'));
+                return;
+            }
+
+            const row = result.rows[0];
+            if (row.revoked_at != null) {
+                // a used token came back: revoke the rest of its family
+                await client.query(
+                    'UPDATE Refresh_Tokens SET revoked_at = NOW() WHERE family_id = $1 AND revoked_at IS NULL',
+                    [row.family_id]
+                );
+                await client.query('COMMIT');
+                console.error(
+                    'Refresh token reused for account ' + row.account_id
+                );
+                next(new UnauthorizedError('Refresh token is not valid'));
+                return;
+            }
+
+            await client.query(
+                'UPDATE Refresh_Tokens SET revoked_at = NOW() WHERE token_id = $1',
+                [row.token_id]
+            );
+            const refreshToken = await issueRefreshToken(
+                row.account_id,
+                row.family_id,
+                client
+            );
+
+            await client.query('COMMIT');
+            response.status(200).send({
+                accessToken: signAccessToken({
+                    name: row.firstname,
+                    id: row.account_id,
+                    role: row.account_role,
+                }),
+                refreshToken,
+            });
+        } catch (error) {
+            await client?.query('ROLLBACK');
+            next(error);
+        } finally {
+            client?.release();
+        }
+    }
+);
+
+/**
+ * @api {post} /logout Request to sign out
+ * @apiName PostLogout
+ * @apiGroup Auth
+ *
+ * @apiDescription Revoke a refresh token so it can no longer be used. Access tokens already
+ * issued stay valid until they expire, unless <code>everywhere</code> is set.
+ *
+ * @apiBody {string} refreshToken The refresh token of the session to end. It must be one
+ * that <code>POST /refresh</code> would still accept.
+ * @apiBody {boolean} [everywhere=false] When true, revoke every access token and refresh token
+ * issued to the account, signing it out on every device.
+ *
+ * @apiSuccess {string} message <code>"Signed out"</code>
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (400: Missing Refresh Token) {String} message "Missing refresh token - please refer to documentation"
+ * @apiError (400: Invalid Everywhere Flag) {String} message "Invalid everywhere flag - please refer to documentation"
+ * @apiError (401: Invalid Refresh Token) {String} message "Refresh token is not valid"
+ */
+tokensRouter.post(
+    '/logout',
+    validate(logoutSchema),
+    (
+        request: IValidRequest<typeof logoutSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        // only a token that could still be refreshed may sign out, so a used one cannot
+        const theQuery = `UPDATE Refresh_Tokens SET revoked_at = NOW()
+            WHERE token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()
+            RETURNING account_id`;
+        const values = [hashToken(request.valid.body.refreshToken)];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 0) {
+                    next(new UnauthorizedError('Refresh token is not valid'));
+                    return;
+                }
+                return (
+                    request.valid.body.everywhere
+                        ? revokeAllTokens(result.rows[0].account_id)
+                        : Promise.resolve()
+                ).then(() => {
+                    response.status(200).send({
+                        message: 'Signed out',
+                    });
+                });
+            })
+            .catch((error) => next(error));
+    }
+);
+
+export { tokensRouter };
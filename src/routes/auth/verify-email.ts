@@ -0,0 +1,159 @@
+// express is the framework we're going to use to handle requests
+import express, { Response, Router, NextFunction } from 'express';
+
+import { validate } from '../../core/middleware';
+import {
+    IRequestSchemas,
+    IValidRequest,
+    BadRequestError,
+    TooManyRequestsError,
+} from '../../core/models';
+import {
+    pool,
+    tokenFunctions,
+    verificationFunctions,
+} from '../../core/utilities';
+
+const hashToken = tokenFunctions.hashToken;
+const sendVerificationEmail = verificationFunctions.sendVerificationEmail;
+
+const verifyEmailRouter: Router = express.Router();
+
+// How long an account must wait between verification emails
+const resendIntervalSeconds = 60;
+
+const verifySchema = {
+    query: {
+        token: {
+            type: 'string',
+            message: 'Missing token - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+const resendSchema = {
+    body: {
+        email: {
+            type: 'string',
+            message: 'Missing email - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+/**
+ * @api {get} /verify-email Confirm an email address
+ * @apiName GetVerifyEmail
+ * @apiGroup Auth
+ *
+ * @apiDescription Confirm the email address of an account with the token from the link in
+ * its verification email. Each token can only be used once and expires after 24 hours.
+ *
+ * @apiQuery {string} token The verification token from the email.
+ *
+ * @apiSuccess {string} message <code>"Email address verified"</code>
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (400: Missing Token) {String} message "Missing token - please refer to documentation"
+ * @apiError (400: Invalid Token) {String} message "Verification token is not valid or has expired"
+ */
+verifyEmailRouter.get(
+    '/verify-email',
+    validate(verifySchema),
+    (
+        request: IValidRequest<typeof verifySchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery = `WITH used AS (
+                UPDATE Email_Verifications SET used_at = NOW()
+                WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+                RETURNING account_id
+            )
+            UPDATE Account SET email_verified_at = COALESCE(email_verified_at, NOW())
+            WHERE account_id = (SELECT account_id FROM used)
+            RETURNING account_id`;
+        const values = [hashToken(request.valid.query.token)];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 1) {
+                    response.status(200).send({
+                        message: 'Email address verified',
+                    });
+                } else {
+                    next(
+                        new BadRequestError(
+                            'Verification token is not valid or has expired'
+                        )
+                    );
+                }
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {post} /verify-email/resend Request another verification email
+ * @apiName PostResendVerification
+ * @apiGroup Auth
+ *
+ * @apiDescription Email a new verification link to an unverified account. An account may
+ * be sent one verification email every 60 seconds. Apart from throttling, the response is
+ * the same whether or not an unverified account matches the email address.
+ *
+ * @apiBody {string} email The email address of the account.
+ *
+ * @apiSuccess {string} message <code>"If the account exists and is unverified, a verification email has been sent"</code>
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (400: Missing Email) {String} message "Missing email - please refer to documentation"
+ * @apiError (429: Too Many Requests) {String} message "Verification email sent recently - try again later"
+ */
+verifyEmailRouter.post(
+    '/verify-email/resend',
+    validate(resendSchema),
+    async (
+        request: IValidRequest<typeof resendSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        try {
+            const account = await pool.query(
+                `SELECT account_id, email, firstname,
+                    (SELECT MAX(created_at) > NOW() - make_interval(secs => $2)
+                        FROM Email_Verifications
+                        WHERE Email_Verifications.account_id = Account.account_id) AS throttled
+                FROM Account
+                WHERE LOWER(email) = LOWER($1) AND email_verified_at IS NULL`,
+                [request.valid.body.email, resendIntervalSeconds]
+            );
+
+            if (account.rowCount == 1) {
+                if (account.rows[0].throttled) {
+                    next(
+                        new TooManyRequestsError(
+                            'Verification email sent recently - try again later'
+                        )
+                    );
+                    return;
+                }
+                await sendVerificationEmail({
+                    id: account.rows[0].account_id,
+                    email: account.rows[0].email,
+                    firstname: account.rows[0].firstname,
+                });
+            }
+
+            response.status(200).send({
+                message:
+                    'If the account exists and is unverified, a verification email has been sent',
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+export { verifyEmailRouter };
@@ -0,0 +1,513 @@
+// express is the framework we're going to use to handle requests
+import express, { NextFunction, Response, Router } from 'express';
+import { PoolClient } from 'pg';
+import { checkParamsIdToJwtId, validate } from '../../core/middleware';
+import {
+    IJwtRequest,
+    IRequestSchemas,
+    IValidRequest,
+    BadRequestError,
+    NotFoundError,
+    TooManyRequestsError,
+} from '../../core/models';
+import {
+    pool,
+    validationFunctions,
+    verificationFunctions,
+    accountFunctions,
+    signinFunctions,
+    ratingFunctions,
+} from '../../core/utilities';
+
+// retrieve the router object from express
+const accountRouter: Router = express.Router();
+
+const toUser = accountFunctions.toUser;
+const authenticate = signinFunctions.authenticate;
+const applyVote = ratingFunctions.applyVote;
+
+// the columns a user may change, each read from the body field of the same name
+const profileColumns = ['firstname', 'lastname', 'username', 'email', 'phone'];
+
+const patchAccountSchema = {
+    body: {
+        firstname: {
+            type: 'string',
+            check: validationFunctions.isValidName,
+            optional: true,
+            message: 'Invalid first name - please refer to documentation',
+        },
+        lastname: {
+            type: 'string',
+            check: validationFunctions.isValidName,
+            optional: true,
+            message: 'Invalid last name - please refer to documentation',
+        },
+        username: {
+            type: 'string',
+            check: validationFunctions.isValidUsername,
+            optional: true,
+            message: 'Invalid username - please refer to documentation',
+        },
+        email: {
+            type: 'string',
+            check: validationFunctions.isValidEmail,
+            optional: true,
+            message: 'Invalid email - please refer to documentation',
+        },
+        phone: {
+            type: 'string',
+            check: validationFunctions.isValidPhone,
+            optional: true,
+            message: 'Invalid phone number - please refer to documentation',
+        },
+    },
+    refine: ({ body }) =>
+        profileColumns.some((column) => body[column] !== undefined)
+            ? []
+            : [
+                  {
+                      location: 'body',
+                      field: '',
+                      message:
+                          'No fields to update - please refer to documentation',
+                  },
+              ],
+} satisfies IRequestSchemas;
+
+const deleteAccountSchema = {
+    body: {
+        password: {
+            type: 'string',
+            message: 'Missing password - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+/**
+ * @apiDefine User
+ * @apiSuccess {Object} user The account.
+ * @apiSuccess {number} user.id The id of the account.
+ * @apiSuccess {string} user.email The email address of the account.
+ * @apiSuccess {string} user.firstname The first name of the account holder.
+ * @apiSuccess {string} user.lastname The last name of the account holder.
+ * @apiSuccess {string} user.username The username of the account.
+ * @apiSuccess {string} user.phone The phone number of the account holder.
+ * @apiSuccess {number} user.role The role of the account: 1 for reader, 2 for editor, 3 for admin.
+ * @apiSuccess {boolean} user.verified Whether the email address has been confirmed.
+ * @apiSuccess {boolean} user.twoFactor Whether two-factor sign in is on.
+ * @apiSuccess {Date} user.lastLogin When the account last signed in, or null if never.
+ */
+
+/**
+ * Sends the account of the signed in user, or 404 if it no longer exists.
+ */
+const sendAccount = (
+    request: IJwtRequest,
+    response: Response,
+    next: NextFunction
+) => {
+    pool.query('SELECT * FROM Account WHERE account_id = $1', [
+        request.claims.id,
+    ])
+        .then((result) => {
+            if (result.rowCount == 1) {
+                response.send({
+                    user: toUser(result.rows[0]),
+                });
+            } else {
+                next(new NotFoundError('No account with given id'));
+            }
+        })
+        .catch((error) => next(error));
+};
+
+/**
+ * @api {get} /account/me Request your account
+ * @apiName GetMyAccount
+ * @apiGroup Account
+ * @apiDescription Retrieve the profile of the signed in account.
+ *
+ * @apiUse User
+ *
+ * @apiUse ErrorEnvelope
+ * @apiError (404: No account) {String} message "No account with given id"
+ */
+accountRouter.get('/me', sendAccount);
+
+/**
+ * @api {patch} /account/me Change your account
+ * @apiName PatchMyAccount
+ * @apiGroup Account
+ * @apiDescription Change any of the profile fields of the signed in account. Fields that
+ * are not provided keep their current value. The fields follow the same rules as
+ * <code>POST /register</code>. Changing the email address marks the account unverified
+ * and emails a verification link to the new address.
+ *
+ * @apiBody {string} [firstname] A new first name.
+ * @apiBody {string} [lastname] A new last name.
+ * @apiBody {string} [username] A new, unique username.
+ * @apiBody {string} [email] A new, unique email address.
+ * @apiBody {string} [phone] A new, unique phone number.
+ *
+ * @apiUse User
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (400: Invalid field) {String} message "Invalid &lt;field&gt; - please refer to documentation"
+ * @apiError (400: No fields) {String} message "No fields to update - please refer to documentation"
+ * @apiError (400: Username exists) {String} message "Username exists"
+ * @apiError (400: Email exists) {String} message "Email exists"
+ * @apiError (400: Phone number exists) {String} message "Phone number exists"
+ * @apiError (404: No account) {String} message "No account with given id"
+ */
+accountRouter.patch(
+    '/me',
+    validate(patchAccountSchema),
+    async (
+        request: IValidRequest<typeof patchAccountSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const body = request.valid.body;
+        const values: (string | number)[] = [request.claims.id];
+        // the placeholder of the new email address, kept as another field may hold
+        // the same text
+        let emailParam: string;
+        const sets = profileColumns
+            .filter((column) => body[column] !== undefined)
+            .map((column) => {
+                values.push(body[column]);
+                if (column == 'email') {
+                    emailParam = '$' + values.length;
+                }
+                return column + ' = $' + values.length;
+            });
+        if (body.email !== undefined) {
+            // a new email address has to be verified again. The right hand side of
+            // SET sees the email address from before the update
+            sets.push(
+                'email_verified_at = CASE WHEN email = ' +
+                    emailParam +
+                    ' THEN email_verified_at ELSE NULL END'
+            );
+        }
+
+        try {
+            const result = await pool.query(
+                `WITH previous AS (SELECT email FROM Account WHERE account_id = $1)
+                UPDATE Account SET ${sets.join(', ')}
+                WHERE account_id = $1
+                RETURNING *, (SELECT email FROM previous) AS previous_email`,
+                values
+            );
+            if (result.rowCount == 0) {
+                next(new NotFoundError('No account with given id'));
+                return;
+            }
+
+            const row = result.rows[0];
+            if (row.email != row.previous_email) {
+                await verificationFunctions.sendVerificationEmail({
+                    id: row.account_id,
+                    email: row.email,
+                    firstname: row.firstname,
+                });
+            }
+            response.send({
+                user: toUser(row),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+/**
+ * @api {delete} /account/me Delete your account
+ * @apiName DeleteMyAccount
+ * @apiGroup Account
+ * @apiDescription Permanently delete the signed in account and everything stored about it:
+ * its credentials, sessions, ratings, reviews, helpful votes and shelves. The ratings it gave
+ * are withdrawn from the aggregate ratings of each book. Failed attempts count towards the
+ * same lockout as <code>POST /login</code>.
+ *
+ * @apiBody {string} password The password of the account, to confirm the deletion.
+ *
+ * @apiSuccess {string} message <code>"Account deleted"</code>
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (400: Missing Password) {String} message "Missing password - please refer to documentation"
+ * @apiError (400: Invalid Credentials) {String} message "Invalid Credentials"
+ * @apiError (404: No account) {String} message "No account with given id"
+ * @apiError (429: Too Many Attempts) {String} message "Too many failed sign in attempts - try again later"
+ */
+accountRouter.delete(
+    '/me',
+    validate(deleteAccountSchema),
+    async (
+        request: IValidRequest<typeof deleteAccountSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        try {
+            const account = await pool.query(
+                'SELECT username FROM Account WHERE account_id = $1',
+                [request.claims.id]
+            );
+            if (account.rowCount == 0) {
+                next(new NotFoundError('No account with given id'));
+                return;
+            }
+
+            const attempt = await authenticate(
+                account.rows[0].username,
+                request.valid.body.password,
+                request.ip,
+                false
+            );
+            if (attempt.status == 'throttled') {
+                next(
+                    new TooManyRequestsError(
+                        'Too many failed sign in attempts - try again later'
+                    )
+                );
+                return;
+            } else if (attempt.status == 'invalid') {
+                next(new BadRequestError('Invalid Credentials'));
+                return;
+            }
+        } catch (error) {
+            next(error);
+            return;
+        }
+
+        let client: PoolClient;
+        try {
+            client = await pool.connect();
+            await client.query('BEGIN');
+
+            // withdraw the ratings from the book aggregates before they cascade away
+            const ratings = await client.query(
+                `SELECT Book_Ratings.isbn13, Book_Ratings.rating
+                FROM Book_Ratings
+                INNER JOIN Books ON Book_Ratings.isbn13 = Books.isbn13
+                WHERE Book_Ratings.account_id = $1
+                ORDER BY Book_Ratings.isbn13
+                FOR UPDATE OF Books`,
+                [request.claims.id]
+            );
+            for (const rating of ratings.rows) {
+                await applyVote(client, rating.isbn13, null, rating.rating);
+            }
+
+            // credentials, tokens, ratings, reviews, votes and shelves cascade
+            await client.query('DELETE FROM Account WHERE account_id = $1', [
+                request.claims.id,
+            ]);
+
+            await client.query('COMMIT');
+            response.send({
+                message: 'Account deleted',
+            });
+        } catch (error) {
+            await client?.query('ROLLBACK');
+            next(error);
+        } finally {
+            client?.release();
+        }
+    }
+);
+
+/**
+ * @api {get} /account/me/export Export your data
+ * @apiName GetMyAccountExport
+ * @apiGroup Account
+ * @apiDescription Download everything stored about the signed in account as a JSON file.
+ * Password hashes and token hashes are left out.
+ *
+ * @apiUse User
+ * @apiSuccess {Object[]} ratings Your ratings, with <code>isbn13</code>, <code>rating</code>,
+ * <code>created</code> and <code>updated</code>.
+ * @apiSuccess {Object[]} reviews Your reviews, with <code>id</code>, <code>isbn13</code>,
+ * <code>text</code>, <code>hidden</code>, <code>created</code> and <code>updated</code>.
+ * @apiSuccess {number[]} helpfulVotes The ids of the reviews you marked helpful.
+ * @apiSuccess {Object[]} shelves Your shelves, with <code>id</code>, <code>name</code>,
+ * <code>isDefault</code>, <code>created</code> and <code>books</code>, each with <code>isbn13</code>,
+ * <code>added</code>, <code>started</code> and <code>finished</code>.
+ * @apiSuccess {Object[]} sessions Your refresh tokens, with <code>created</code>,
+ * <code>expires</code> and <code>revoked</code>.
+ * @apiSuccess {Object} security The sign in state of the account.
+ * @apiSuccess {string} security.passwordAlgorithm How the password is hashed.
+ * @apiSuccess {Date} security.emailVerified When the email address was confirmed, or null.
+ * @apiSuccess {Date} security.twoFactorEnabled When two-factor sign in was turned on, or null.
+ * @apiSuccess {number} security.failedLogins Failed sign in attempts since the last successful one.
+ * @apiSuccess {Date} security.lockedUntil When the last lock after failed attempts ends, or null.
+ * @apiSuccess {Date} security.tokensRevoked When you last signed out everywhere, or null.
+ * @apiSuccess {Object[]} emailVerifications The verification emails sent to you, with
+ * <code>created</code>, <code>expires</code> and <code>used</code>.
+ * @apiSuccess {Object[]} passwordResets The password resets you asked for, with
+ * <code>created</code>, <code>expires</code> and <code>used</code>.
+ * @apiSuccess {Object[]} recoveryCodes Your two-factor recovery codes, each with when it
+ * was <code>used</code>, or null. The codes themselves are not included.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiError (404: No account) {String} message "No account with given id"
+ */
+accountRouter.get(
+    '/me/export',
+    async (request: IJwtRequest, response: Response, next: NextFunction) => {
+        const id = request.claims.id;
+        try {
+            const account = await pool.query(
+                'SELECT * FROM Account WHERE account_id = $1',
+                [id]
+            );
+            if (account.rowCount == 0) {
+                next(new NotFoundError('No account with given id'));
+                return;
+            }
+
+            const [
+                ratings,
+                reviews,
+                helpful,
+                shelves,
+                sessions,
+                credential,
+                verifications,
+                resets,
+                recoveryCodes,
+            ] = await Promise.all([
+                pool.query(
+                    'SELECT * FROM Book_Ratings WHERE account_id = $1 ORDER BY created_at',
+                    [id]
+                ),
+                pool.query(
+                    'SELECT * FROM Reviews WHERE account_id = $1 ORDER BY created_at',
+                    [id]
+                ),
+                pool.query(
+                    'SELECT review_id FROM Review_Helpful WHERE account_id = $1 ORDER BY review_id',
+                    [id]
+                ),
+                pool.query(
+                    `SELECT Shelves.*,
+                            COALESCE(
+                                JSON_AGG(Shelf_Books ORDER BY Shelf_Books.added_at)
+                                    FILTER (WHERE Shelf_Books.isbn13 IS NOT NULL),
+                                '[]'
+                            ) AS books
+                        FROM Shelves
+                        LEFT JOIN Shelf_Books ON Shelves.shelf_id = Shelf_Books.shelf_id
+                        WHERE Shelves.account_id = $1
+                        GROUP BY Shelves.shelf_id
+                        ORDER BY Shelves.shelf_id`,
+                    [id]
+                ),
+                pool.query(
+                    'SELECT created_at, expires_at, revoked_at FROM Refresh_Tokens WHERE account_id = $1 ORDER BY created_at',
+                    [id]
+                ),
+                pool.query(
+                    'SELECT algorithm FROM Account_Credential WHERE account_id = $1',
+                    [id]
+                ),
+                pool.query(
+                    'SELECT created_at, expires_at, used_at FROM Email_Verifications WHERE account_id = $1 ORDER BY created_at',
+                    [id]
+                ),
+                pool.query(
+                    'SELECT created_at, expires_at, used_at FROM Password_Resets WHERE account_id = $1 ORDER BY created_at',
+                    [id]
+                ),
+                pool.query(
+                    'SELECT used_at FROM Recovery_Codes WHERE account_id = $1 ORDER BY code_id',
+                    [id]
+                ),
+            ]);
+            const user = account.rows[0];
+
+            response.attachment('account-' + id + '.json');
+            response.send({
+                user: toUser(user),
+                ratings: ratings.rows.map((row) => ({
+                    isbn13: Number(row.isbn13),
+                    rating: row.rating,
+                    created: row.created_at,
+                    updated: row.updated_at,
+                })),
+                reviews: reviews.rows.map((row) => ({
+                    id: row.review_id,
+                    isbn13: Number(row.isbn13),
+                    text: row.review_text,
+                    hidden: row.hidden,
+                    created: row.created_at,
+                    updated: row.updated_at,
+                })),
+                helpfulVotes: helpful.rows.map((row) => row.review_id),
+                shelves: shelves.rows.map((row) => ({
+                    id: row.shelf_id,
+                    name: row.name,
+                    isDefault: row.is_default,
+                    created: row.created_at,
+                    // rows built by JSON_AGG keep the lowercase column names
+                    books: row.books.map((book) => ({
+                        isbn13: Number(book.isbn13),
+                        added: book.added_at,
+                        started: book.date_started,
+                        finished: book.date_finished,
+                    })),
+                })),
+                sessions: sessions.rows.map((row) => ({
+                    created: row.created_at,
+                    expires: row.expires_at,
+                    revoked: row.revoked_at,
+                })),
+                security: {
+                    passwordAlgorithm: credential.rows[0]?.algorithm ?? null,
+                    emailVerified: user.email_verified_at,
+                    twoFactorEnabled: user.totp_enabled_at,
+                    failedLogins: user.failed_logins,
+                    lockedUntil: user.locked_until,
+                    tokensRevoked: user.tokens_revoked_at,
+                },
+                emailVerifications: verifications.rows.map((row) => ({
+                    created: row.created_at,
+                    expires: row.expires_at,
+                    used: row.used_at,
+                })),
+                passwordResets: resets.rows.map((row) => ({
+                    created: row.created_at,
+                    expires: row.expires_at,
+                    used: row.used_at,
+                })),
+                recoveryCodes: recoveryCodes.rows.map((row) => ({
+                    used: row.used_at,
+                })),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+/**
+ * @api {get} /account/:id Request an account by id
+ * @apiName GetAccount
+ * @apiGroup Account
+ * @apiDescription Retrieve the profile of an account. Only the signed in account may be
+ * requested.
+ *
+ * @apiParam {number} id The id of the signed in account.
+ *
+ * @apiUse User
+ *
+ * @apiUse ErrorEnvelope
+ * @apiError (400: Wrong account) {String} message "Credentials do not match for this user."
+ * @apiError (404: No account) {String} message "No account with given id"
+ */
+accountRouter.get('/:id', checkParamsIdToJwtId, sendAccount);
+
+export { accountRouter };
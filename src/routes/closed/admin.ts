@@ -0,0 +1,222 @@
+// express is the framework we're going to use to handle requests
+import express, { NextFunction, Response, Router } from 'express';
+import { PoolClient } from 'pg';
+import { validate } from '../../core/middleware';
+import {
+    IRequestSchemas,
+    IValidRequest,
+    Role,
+    NotFoundError,
+} from '../../core/models';
+import { pool } from '../../core/utilities';
+
+// retrieve the router object from express
+const adminRouter: Router = express.Router();
+
+const roleSchema = {
+    params: {
+        id: {
+            type: 'integer',
+            message:
+                'Query parameter not of required type - please refer to documentation',
+        },
+    },
+    body: {
+        role: {
+            type: 'integer',
+            check: (role) =>
+                [Role.Reader, Role.Editor, Role.Admin].includes(role),
+            message: 'Invalid or missing role - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+const duplicatesSchema = {
+    query: {
+        threshold: {
+            type: 'number',
+            check: (threshold) => threshold > 0 && threshold <= 1,
+            optional: true,
+            default: 0.6,
+            message: 'Invalid threshold - please refer to documentation',
+        },
+        limit: {
+            type: 'integer',
+            min: 1,
+            optional: true,
+            default: 100,
+            message: 'Invalid limit - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+/**
+ * @api {put} /admin/accounts/:id/role Change the role of an account
+ * @apiName PutAccountRole
+ * @apiGroup Admin
+ * @apiPermission admin
+ * @apiDescription Change the role of an account. The new role is carried by the next
+ * token the account receives, so it takes effect when the account next signs in.
+ *
+ * @apiParam {number} id The id of the account.
+ *
+ * @apiBody {number} role The new role: 1 for reader, 2 for editor, 3 for admin.
+ *
+ * @apiSuccess {Object} user The account whose role changed.
+ * @apiSuccess {number} user.id The id of the account.
+ * @apiSuccess {string} user.username The username of the account.
+ * @apiSuccess {number} user.role The new role of the account.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No account) {String} message "No account with given id"
+ * @apiError (400: Invalid role) {String} message "Invalid or missing role - please refer to documentation"
+ * @apiError (400: Query parameter wrong type) {String} message "Query parameter not of required type - please refer to documentation"
+ * @apiUse InsufficientRole
+ */
+adminRouter.put(
+    '/accounts/:id/role',
+    validate(roleSchema),
+    (
+        request: IValidRequest<typeof roleSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery =
+            'UPDATE Account SET account_role = $2 WHERE account_id = $1 RETURNING account_id, username, account_role';
+        const values = [request.valid.params.id, request.valid.body.role];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 1) {
+                    response.send({
+                        user: {
+                            id: result.rows[0].account_id,
+                            username: result.rows[0].username,
+                            role: result.rows[0].account_role,
+                        },
+                    });
+                } else {
+                    next(new NotFoundError('No account with given id'));
+                }
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {get} /admin/authors/duplicates Request likely duplicate authors
+ * @apiName GetDuplicateAuthors
+ * @apiGroup Admin
+ * @apiPermission admin
+ * @apiDescription Report authors that are probably the same person under different
+ * names, to be combined with <code>POST /authors/:id/merge</code>. Authors whose names
+ * differ only in case, spacing or punctuation are reported as duplicates. Other pairs of
+ * authors with similar names (by trigram similarity) are reported as similar, most
+ * similar first, for an admin to check by hand.
+ *
+ * @apiQuery {number} [threshold=0.6] The lowest trigram similarity, from 0 to 1, of two
+ * names reported as similar.
+ * @apiQuery {number} [limit=100] The most pairs of similar authors to report, at least 1.
+ *
+ * @apiSuccess {Object[]} duplicates The groups of authors sharing a normalized name.
+ * @apiSuccess {string} duplicates.key The normalized name: lower case, without spaces or
+ * punctuation.
+ * @apiSuccess {Object[]} duplicates.authors The authors in the group, oldest first.
+ * @apiSuccess {number} duplicates.authors.id The id of the author.
+ * @apiSuccess {string} duplicates.authors.name The name of the author.
+ * @apiSuccess {number} duplicates.authors.bookCount The number of books by the author.
+ * @apiSuccess {Object[]} similar The pairs of authors with similar names.
+ * @apiSuccess {number} similar.similarity The trigram similarity of the names, from 0 to 1.
+ * @apiSuccess {Object[]} similar.authors The two authors, in the same form as
+ * <code>duplicates.authors</code>.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (400: Invalid threshold) {String} message "Invalid threshold - please refer to documentation"
+ * @apiError (400: Invalid limit) {String} message "Invalid limit - please refer to documentation"
+ * @apiUse InsufficientRole
+ */
+adminRouter.get(
+    '/authors/duplicates',
+    validate(duplicatesSchema),
+    async (
+        request: IValidRequest<typeof duplicatesSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const { threshold, limit } = request.valid.query;
+
+        let client: PoolClient;
+        try {
+            client = await pool.connect();
+            await client.query('BEGIN READ ONLY');
+
+            const duplicates = await client.query(
+                `WITH counted AS (
+                    SELECT a.author_id, a.author_name, COUNT(ba.isbn13) AS book_count
+                    FROM Author a
+                    LEFT JOIN Books_Authors ba ON a.author_id = ba.author_id
+                    GROUP BY a.author_id
+                )
+                SELECT author_name_key(author_name) AS key,
+                    JSON_AGG(JSON_BUILD_OBJECT(
+                        'id', author_id, 'name', author_name, 'bookCount', book_count
+                    ) ORDER BY author_id) AS authors
+                FROM counted
+                WHERE author_name_key(author_name) <> ''
+                GROUP BY author_name_key(author_name)
+                HAVING COUNT(*) > 1
+                ORDER BY key`
+            );
+
+            // the % operator uses this threshold, and can then use the trigram index
+            await client.query(
+                "SELECT set_config('pg_trgm.similarity_threshold', $1, true)",
+                [String(threshold)]
+            );
+            const similar = await client.query(
+                `WITH pairs AS (
+                    SELECT a1.author_id AS id1, a2.author_id AS id2,
+                        similarity(a1.author_name, a2.author_name) AS similarity
+                    FROM Author a1
+                    JOIN Author a2
+                        ON a1.author_name % a2.author_name AND a1.author_id < a2.author_id
+                    WHERE author_name_key(a1.author_name) <> author_name_key(a2.author_name)
+                    ORDER BY similarity DESC, id1, id2
+                    LIMIT $1
+                ),
+                counted AS (
+                    SELECT a.author_id, JSON_BUILD_OBJECT(
+                        'id', a.author_id, 'name', a.author_name,
+                        'bookCount', (SELECT COUNT(*) FROM Books_Authors ba WHERE ba.author_id = a.author_id)
+                    ) AS author
+                    FROM Author a
+                    WHERE a.author_id IN (SELECT id1 FROM pairs UNION SELECT id2 FROM pairs)
+                )
+                SELECT pairs.similarity, JSON_BUILD_ARRAY(c1.author, c2.author) AS authors
+                FROM pairs
+                JOIN counted c1 ON c1.author_id = pairs.id1
+                JOIN counted c2 ON c2.author_id = pairs.id2
+                ORDER BY pairs.similarity DESC, pairs.id1, pairs.id2`,
+                [limit]
+            );
+
+            await client.query('COMMIT');
+            response.send({
+                duplicates: duplicates.rows,
+                similar: similar.rows.map((row) => ({
+                    similarity: Math.round(row.similarity * 100) / 100,
+                    authors: row.authors,
+                })),
+            });
+        } catch (error) {
+            await client?.query('ROLLBACK');
+            next(error);
+        } finally {
+            client?.release();
+        }
+    }
+);
+
+export { adminRouter };
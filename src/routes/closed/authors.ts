@@ -0,0 +1,379 @@
+// express is the framework we're going to use to handle requests
+import express, { NextFunction, Response, Router } from 'express';
+import { PoolClient } from 'pg';
+import { checkRole, validate } from '../../core/middleware';
+import {
+    IBook,
+    IRequestSchemas,
+    ISchema,
+    IValidRequest,
+    Role,
+    NotFoundError,
+} from '../../core/models';
+import { pool, bookFunctions, authorFunctions } from '../../core/utilities';
+
+// retrieve the router object from express
+const authorsRouter: Router = express.Router();
+
+const toBook = bookFunctions.toBook;
+const authorListColumn = bookFunctions.authorListColumn;
+const toAuthor = authorFunctions.toAuthor;
+const mergeAuthors = authorFunctions.mergeAuthors;
+const normalizeAuthorName = authorFunctions.normalizeAuthorName;
+
+interface IAuthorSummary {
+    id: number;
+    name: string;
+    bookCount: number;
+    averageRating: number | null;
+}
+
+function toAuthorSummary(row): IAuthorSummary {
+    return {
+        ...toAuthor(row),
+        bookCount: parseInt(row.book_count ?? 0),
+        averageRating:
+            row.average_rating == null
+                ? null
+                : Math.round(row.average_rating * 100) / 100,
+    };
+}
+
+const authorIdParams = {
+    id: {
+        type: 'integer',
+        message:
+            'Query parameter not of required type - please refer to documentation',
+    },
+} satisfies ISchema;
+
+const authorIdSchema = {
+    params: authorIdParams,
+} satisfies IRequestSchemas;
+
+const getAuthorsSchema = {
+    query: {
+        name: {
+            type: 'string',
+            optional: true,
+            message: 'Invalid name - please refer to documentation',
+        },
+        limit: {
+            type: 'integer',
+            min: 1,
+            optional: true,
+            default: 16,
+            message: 'Invalid limit - please refer to documentation',
+        },
+        offset: {
+            type: 'integer',
+            min: 0,
+            optional: true,
+            default: 0,
+            message: 'Invalid offset - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+const patchAuthorSchema = {
+    params: authorIdParams,
+    body: {
+        // Names are joined with commas in the authors of a book, so may not contain one
+        name: {
+            type: 'string',
+            check: (name) =>
+                name.trim().length > 0 &&
+                name.length <= 255 &&
+                !name.includes(','),
+            message:
+                'Invalid or missing author name - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+const mergeMessage = 'Invalid or missing ids - please refer to documentation';
+
+const mergeSchema = {
+    params: authorIdParams,
+    body: {
+        ids: {
+            type: 'array',
+            items: { type: 'integer', message: mergeMessage },
+            minItems: 1,
+            message: mergeMessage,
+        },
+    },
+    // an author cannot be merged into itself
+    refine: ({ params, body }) =>
+        body.ids.includes(params.id)
+            ? [{ location: 'body', field: 'ids', message: mergeMessage }]
+            : [],
+} satisfies IRequestSchemas;
+
+const summaryQuery = `SELECT a.author_id, a.author_name, COUNT(b.isbn13) AS book_count,
+        AVG(b.rating_avg) AS average_rating
+    FROM Author a
+    LEFT JOIN Books_Authors ba ON a.author_id = ba.author_id
+    LEFT JOIN Books b ON ba.isbn13 = b.isbn13`;
+
+/**
+ * @api {get} /authors Request authors
+ * @apiName GetAuthors
+ * @apiGroup Authors
+ * @apiDescription Retrieve authors in order of name, with how many books each has and
+ * how well they are rated.
+ *
+ * @apiQuery {string} [name] A case-insensitive substring of the name of the author.
+ * @apiQuery {number} [limit=16] The number of authors to return, at least 1.
+ * @apiQuery {number} [offset=0] The number of authors to skip.
+ *
+ * @apiSuccess {Object[]} results The authors, each in the same form as <code>result</code>
+ * of <code>GET /authors/:id</code> without its books.
+ * @apiSuccess {Object} pagination metadata results from this paginated query
+ * @apiSuccess {number} pagination.limit the number of entry objects returned.
+ * @apiSuccess {number} pagination.offset the number used to offset the lookup of entry objects.
+ * @apiSuccess {number} pagination.nextPage the offset that should be used on a preceding call to this route.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (400: Invalid limit) {String} message "Invalid limit - please refer to documentation"
+ * @apiError (400: Invalid offset) {String} message "Invalid offset - please refer to documentation"
+ */
+authorsRouter.get(
+    '/',
+    validate(getAuthorsSchema),
+    (
+        request: IValidRequest<typeof getAuthorsSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const { name, limit, offset } = request.valid.query;
+
+        const theQuery = `${summaryQuery}
+        WHERE $1::TEXT IS NULL OR a.author_name ILIKE '%' || $1 || '%'
+        GROUP BY a.author_id
+        ORDER BY a.author_name, a.author_id
+        LIMIT $2 OFFSET $3`;
+        const values = [name ?? null, limit, offset];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                response.send({
+                    results: result.rows.map(toAuthorSummary),
+                    pagination: {
+                        limit,
+                        offset,
+                        nextPage: limit + offset,
+                    },
+                });
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {get} /authors/:id Request an author and their books
+ * @apiName GetAuthor
+ * @apiGroup Authors
+ *
+ * @apiParam {number} id The id of the author.
+ *
+ * @apiSuccess {Object} result The author.
+ * @apiSuccess {number} result.id The id of the author.
+ * @apiSuccess {string} result.name The name of the author.
+ * @apiSuccess {number} result.bookCount The number of books by the author.
+ * @apiSuccess {number} result.averageRating The mean average rating of the books by the
+ * author, to two decimal places, or <code>null</code> if the author has no books.
+ * @apiSuccess {Object[]} result.books The books by the author, oldest first, each in the
+ * same form as <code>result</code> of <code>GET /books/isbns/:isbn</code>.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No author) {String} message "No author with given id"
+ * @apiError (400: Query parameter wrong type) {String} message "Query parameter not of required type - please refer to documentation"
+ */
+authorsRouter.get(
+    '/:id',
+    validate(authorIdSchema),
+    async (
+        request: IValidRequest<typeof authorIdSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        try {
+            const author = await pool.query(
+                `${summaryQuery} WHERE a.author_id = $1 GROUP BY a.author_id`,
+                [request.valid.params.id]
+            );
+            if (author.rowCount == 0) {
+                next(new NotFoundError('No author with given id'));
+                return;
+            }
+
+            const books = await pool.query(
+                `SELECT
+                    b.isbn13, b.title, b.original_title, b.publication_year, b.rating_avg,
+                    b.rating_count, b.rating_1_star, b.rating_2_star, b.rating_3_star,
+                    b.rating_4_star, b.rating_5_star, b.image_url, b.image_small_url,
+                    string_agg(a.Author_name, ', ' ORDER BY a.Author_name) AS authors,
+                    ${authorListColumn}
+                FROM Books b
+                JOIN Books_Authors ba ON b.isbn13 = ba.isbn13
+                JOIN Author a ON ba.Author_id = a.Author_id
+                WHERE b.isbn13 IN (SELECT isbn13 FROM Books_Authors WHERE author_id = $1)
+                GROUP BY b.id
+                ORDER BY b.publication_year, b.title`,
+                [request.valid.params.id]
+            );
+            const result: IAuthorSummary & { books: IBook[] } = {
+                ...toAuthorSummary(author.rows[0]),
+                books: books.rows.map(toBook),
+            };
+            response.send({
+                result,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+/**
+ * @api {patch} /authors/:id Rename an author
+ * @apiName PatchAuthor
+ * @apiGroup Authors
+ * @apiPermission editor
+ * @apiDescription Change the name of an author. Every book by the author shows the new
+ * name at once. To combine two spellings of the same author, use
+ * <code>POST /authors/:id/merge</code> instead.
+ *
+ * @apiParam {number} id The id of the author.
+ *
+ * @apiBody {string} name The new name of the author. Spaces are trimmed from the ends
+ * and collapsed between words, and it may not contain a comma.
+ *
+ * @apiSuccess {Object} result The renamed author.
+ * @apiSuccess {number} result.id The id of the author.
+ * @apiSuccess {string} result.name The new name of the author.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No author) {String} message "No author with given id"
+ * @apiError (400: Invalid name) {String} message "Invalid or missing author name - please refer to documentation"
+ * @apiError (400: Author exists) {String} message "Author exists - merge the authors instead"
+ * @apiError (400: Query parameter wrong type) {String} message "Query parameter not of required type - please refer to documentation"
+ * @apiUse InsufficientRole
+ */
+authorsRouter.patch(
+    '/:id',
+    checkRole(Role.Editor),
+    validate(patchAuthorSchema),
+    (
+        request: IValidRequest<typeof patchAuthorSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery =
+            'UPDATE Author SET author_name = $2 WHERE author_id = $1 RETURNING *';
+        const values = [
+            request.valid.params.id,
+            normalizeAuthorName(request.valid.body.name),
+        ];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 1) {
+                    response.send({
+                        result: toAuthor(result.rows[0]),
+                    });
+                } else {
+                    next(new NotFoundError('No author with given id'));
+                }
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {post} /authors/:id/merge Merge authors into an author
+ * @apiName PostAuthorMerge
+ * @apiGroup Authors
+ * @apiPermission editor
+ * @apiDescription Combine duplicate authors, such as two spellings of the same name, into
+ * one. Every book by the merged authors is credited to this author instead, and the
+ * merged authors are deleted.
+ *
+ * @apiParam {number} id The id of the author to keep.
+ *
+ * @apiBody {number[]} ids The ids of the authors to merge into this author.
+ *
+ * @apiSuccess {Object} result The author that was kept, in the same form as
+ * <code>result</code> of <code>GET /authors/:id</code> without its books.
+ * @apiSuccess {number[]} merged The ids of the authors that were merged.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No author) {String} message "No author with given id"
+ * @apiError (404: No merged author) {String} message "No author with id &lt;id&gt;"
+ * @apiError (400: Invalid ids) {String} message "Invalid or missing ids - please refer to documentation"
+ * @apiError (400: Query parameter wrong type) {String} message "Query parameter not of required type - please refer to documentation"
+ * @apiUse InsufficientRole
+ */
+authorsRouter.post(
+    '/:id/merge',
+    checkRole(Role.Editor),
+    validate(mergeSchema),
+    async (
+        request: IValidRequest<typeof mergeSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const targetId = request.valid.params.id;
+        const sourceIds = [...new Set(request.valid.body.ids)];
+
+        let client: PoolClient;
+        try {
+            client = await pool.connect();
+            await client.query('BEGIN');
+
+            const found = await client.query(
+                'SELECT author_id FROM Author WHERE author_id = ANY($1::INT[]) FOR UPDATE',
+                [[targetId, ...sourceIds]]
+            );
+            const foundIds = found.rows.map((row) => row.author_id);
+            const missing = [targetId, ...sourceIds].find(
+                (id) => !foundIds.includes(id)
+            );
+            if (missing != undefined) {
+                await client.query('ROLLBACK');
+                next(
+                    new NotFoundError(
+                        missing == targetId
+                            ? 'No author with given id'
+                            : 'No author with id ' + missing
+                    )
+                );
+                return;
+            }
+
+            const merged = await mergeAuthors(client, targetId, sourceIds);
+            const author = await client.query(
+                `${summaryQuery} WHERE a.author_id = $1 GROUP BY a.author_id`,
+                [targetId]
+            );
+
+            await client.query('COMMIT');
+            response.send({
+                result: toAuthorSummary(author.rows[0]),
+                merged,
+            });
+        } catch (error) {
+            await client?.query('ROLLBACK');
+            next(error);
+        } finally {
+            client?.release();
+        }
+    }
+);
+
+export { authorsRouter };
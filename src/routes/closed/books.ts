@@ -1,90 +1,312 @@
 // express is the framework we're going to use to handle requests
 import express, { NextFunction, Request, Response, Router } from 'express';
-import { IJwtRequest } from '../../core/models';
-import { pool, validationFunctions } from '../../core/utilities';
+import { PoolClient } from 'pg';
+import { checkRole, checkSchema, validate } from '../../core/middleware';
+import {
+    CursorSort,
+    IBook,
+    Role,
+    IRequestSchemas,
+    IRule,
+    ISchema,
+    IValidRequest,
+    IViolation,
+    BadRequestError,
+    NotFoundError,
+} from '../../core/models';
+import {
+    pool,
+    paginationFunctions,
+    bookFunctions,
+    csvFunctions,
+    isbnFunctions,
+} from '../../core/utilities';
 
 // retrieve the router object from express
 const booksRouter: Router = express.Router();
 
+const toBook = bookFunctions.toBook;
+const authorListColumn = bookFunctions.authorListColumn;
+const linkAuthors = bookFunctions.linkAuthors;
+const selectBook = bookFunctions.selectBook;
+const createBook = bookFunctions.createBook;
+const upsertBooks = bookFunctions.upsertBooks;
+const storedIsbn = bookFunctions.storedIsbn;
+const isbnParams = bookFunctions.isbnParams;
+const catalogIsbns = isbnFunctions.catalogIsbns;
 
-interface IRatings {
-    average: number;
-    count: number;
-    rating_1: number;
-    rating_2: number;
-    rating_3: number;
-    rating_4: number;
-    rating_5: number;
+interface IKeysetBody {
+    results: IBook[];
+    pagination?: {
+        limit: number;
+        nextCursor: string | null;
+        prevCursor: string | null;
+        estimatedTotal?: number | null;
+    };
 }
 
-interface IUrlIcon {
-    large: string;
-    small: string;
-}
+/**
+ * Reads the <code>entry</code> of a POST /books body, whose ratings are named
+ * rating1 to rating5, into a book.
+ */
+const entryToBook = (entry): IBook => ({
+    isbn13: entry?.isbn13,
+    authors: entry?.authors,
+    publication: entry?.publication,
+    original_title: entry?.original_title,
+    title: entry?.title,
+    ratings: entry?.ratings && {
+        average: entry.ratings.average,
+        count: entry.ratings.count,
+        rating_1: entry.ratings.rating1,
+        rating_2: entry.ratings.rating2,
+        rating_3: entry.ratings.rating3,
+        rating_4: entry.ratings.rating4,
+        rating_5: entry.ratings.rating5,
+    },
+    icons: entry?.icons && {
+        large: entry.icons.large,
+        small: entry.icons.small,
+    },
+});
 
-interface IBook {
-    isbn13: number;
-    authors: string;
-    publication: number;
-    original_title: string;
-    title: string;
-    ratings: IRatings;
-    icons: IUrlIcon;
+/**
+ * Writes a book, as returned by <code>GET /books/isbns/:isbn</code>, in the form of the
+ * <code>entry</code> of a POST /books body, so a row of an import can be checked with
+ * the rules of POST /books.
+ */
+const bookToEntry = (book) => ({
+    ...book,
+    ratings: book?.ratings && {
+        average: book.ratings.average,
+        count: book.ratings.count,
+        rating1: book.ratings.rating_1,
+        rating2: book.ratings.rating_2,
+        rating3: book.ratings.rating_3,
+        rating4: book.ratings.rating_4,
+        rating5: book.ratings.rating_5,
+    },
+});
+
+// looking a book up also takes an ISBN-10, or the ISBN-13 the catalog returned for it
+const isbnLookupSchema = {
+    params: isbnParams,
+} satisfies IRequestSchemas;
+
+/*
+ * The title, author and rating routes page their results by cursor when the client
+ * supplies a limit or a cursor, and return every result at once otherwise.
+ */
+const keysetFields = {
+    limit: {
+        type: 'integer',
+        min: 1,
+        optional: true,
+        message: 'Invalid limit - please refer to documentation',
+    },
+    cursor: {
+        type: 'string',
+        check: (cursor) => paginationFunctions.decodeCursor(cursor) != null,
+        optional: true,
+        message: 'Invalid cursor - please refer to documentation',
+    },
+} satisfies ISchema;
+
+// the search routes and /pagination/offset page their results by offset
+const offsetFields = {
+    limit: {
+        type: 'integer',
+        min: 1,
+        optional: true,
+        default: 16,
+        message: 'Invalid limit - please refer to documentation',
+    },
+    offset: {
+        type: 'integer',
+        min: 0,
+        optional: true,
+        default: 0,
+        message: 'Invalid offset - please refer to documentation',
+    },
+} satisfies ISchema;
+
+/**
+ * Checks that a cursor was returned by a call with the same sort and order, for the
+ * refine of a route with keysetFields.
+ *
+ * @param {'query' | 'body'} location the part of the request holding the cursor
+ * @param {string} [cursor] the cursor, already known to decode
+ * @param {CursorSort} sort the sort key of the request
+ * @param {string} order the direction of the sort of the request, ASC or DESC
+ */
+function cursorViolations(
+    location: 'query' | 'body',
+    cursor: string | undefined,
+    sort: CursorSort,
+    order: 'ASC' | 'DESC'
+): IViolation[] {
+    const decoded = paginationFunctions.decodeCursor(cursor);
+    if (
+        cursor === undefined ||
+        (decoded.sort == sort && decoded.order == order)
+    ) {
+        return [];
+    }
+    return [
+        {
+            location,
+            field: 'cursor',
+            message: 'Invalid cursor - please refer to documentation',
+        },
+    ];
 }
 
-function toBook(row): IBook {
-    const sanitizedRatings: IRatings = {
-        average: row.rating_avg,
-        count: row.rating_count,
-        rating_1: row.rating_1_star,
-        rating_2: row.rating_2_star,
-        rating_3: row.rating_3_star,
-        rating_4: row.rating_4_star,
-        rating_5: row.rating_5_star
-    };
-    const sanitizedUrls: IUrlIcon = {
-        large: row.image_url,
-        small: row.image_small_url
-    };
-    
+/**
+ * Builds the pieces a list route needs to optionally page its query by cursor.
+ *
+ * @param params the valid query or body holding the optional limit and cursor
+ * @param {CursorSort} sort the sort key to page by
+ * @param {string} order the direction of the sort, ASC or DESC
+ * @param {number} firstParam the index of the first $n placeholder the pieces may use
+ * @returns the extra WHERE condition and values, the ORDER BY/LIMIT suffix, and a
+ * function turning the returned rows into the response body
+ */
+function keysetOptions(
+    params,
+    sort: CursorSort,
+    order: 'ASC' | 'DESC',
+    firstParam: number
+) {
+    const paginated = params.limit !== undefined || params.cursor !== undefined;
+    const limit: number =
+        paginated && params.limit !== undefined ? params.limit : 16;
+    const cursor = paginationFunctions.decodeCursor(params.cursor);
+    const clause = paginationFunctions.keysetClause(
+        sort,
+        order,
+        cursor,
+        firstParam
+    );
+
+    if (!paginated) {
+        return {
+            condition: null,
+            suffix: '',
+            values: [],
+            toBody: (rows): IKeysetBody => ({
+                results: rows.map((b) => toBook(b)),
+            }),
+        };
+    }
     return {
-        isbn13: Number(row.isbn13),
-        authors: row.authors,
-        publication: row.publication_year,
-        original_title: row.original_title,
-        title: row.title,
-        ratings: sanitizedRatings,
-        icons: sanitizedUrls
+        condition: clause.condition,
+        suffix: `ORDER BY ${clause.orderBy} LIMIT $${firstParam + clause.values.length}`,
+        values: [...clause.values, limit + 1],
+        toBody: (rows): IKeysetBody => {
+            const page = paginationFunctions.toPage(
+                rows,
+                limit,
+                sort,
+                order,
+                cursor
+            );
+            return {
+                results: page.rows.map((b) => toBook(b)),
+                pagination: {
+                    limit,
+                    nextCursor: page.nextCursor,
+                    prevCursor: page.prevCursor,
+                },
+            };
+        },
     };
-};
-
-// When multiple rows are returned
-function toBooks(row): IBook[] {
-    return row.map(toBook);
 }
 
-const verifyElement = (isValid, name, response) => {
-    if (!isValid) {
-        console.error('Invalid or missing ' + name);
-        response.status(400).send({
-            message:
-                'Invalid or missing ' + name + ' - please refer to documentation',
-        });
-    }
-};
+const ratingCount = {
+    type: 'number',
+    min: 0,
+    message: 'Invalid or missing Rating - please refer to documentation',
+} satisfies IRule;
 
+// the fields of a book, in the entry of POST /books and in each row of an import
+const bookEntryFields = {
+    isbn13: {
+        type: 'isbn',
+        message: 'Invalid or missing ISBN - please refer to documentation',
+    },
+    authors: {
+        type: 'string',
+        message: 'Invalid or missing Authors - please refer to documentation',
+    },
+    publication: {
+        type: 'number',
+        min: 0,
+        message:
+            'Invalid or missing Publication - please refer to documentation',
+    },
+    original_title: {
+        type: 'string',
+        message:
+            'Invalid or missing Original Title - please refer to documentation',
+    },
+    title: {
+        type: 'string',
+        message: 'Invalid or missing Title - please refer to documentation',
+    },
+    ratings: {
+        type: 'object',
+        message: 'Invalid or missing Rating - please refer to documentation',
+        fields: {
+            average: { ...ratingCount, min: 1, max: 5 },
+            count: ratingCount,
+            rating1: ratingCount,
+            rating2: ratingCount,
+            rating3: ratingCount,
+            rating4: ratingCount,
+            rating5: ratingCount,
+        },
+    },
+    icons: {
+        type: 'object',
+        message: 'Invalid or missing Image Url - please refer to documentation',
+        fields: {
+            large: {
+                type: 'string',
+                message:
+                    'Invalid or missing Image Url - please refer to documentation',
+            },
+            small: {
+                type: 'string',
+                message:
+                    'Invalid or missing Image Small Url - please refer to documentation',
+            },
+        },
+    },
+} satisfies ISchema;
+
+const postBookSchema = {
+    body: {
+        entry: {
+            type: 'object',
+            message: 'Invalid or missing entry - please refer to documentation',
+            fields: bookEntryFields,
+        },
+    },
+} satisfies IRequestSchemas;
 
 /**
  * @api {post} /books Request to add a book
  * @apiName AddBook
  * @apiGroup Books
+ * @apiPermission editor
  * @apiDescription Request to add a book to the database.
  *
  * @apiBody {Object} entry the book to be added
  * as a query parameter.
- * @apiBody {number} entry.isbn13 The ISBN number for the book. The ISBN number must
- * be an integer of exactly 13 digits; however, leading zeroes are acceptable, in which
- * case it may be less than 13 digits and interpreted as having leading zeroes.
+ * @apiBody {string} entry.isbn13 The ISBN of the book, either an ISBN-13 or an ISBN-10,
+ * with or without hyphens, e.g. <code>978-0439023481</code> or <code>0-439-02348-3</code>.
+ * Its check digit must be valid. An ISBN-10 is stored as its ISBN-13. A number is read as an
+ * ISBN-13 that has lost its leading zeroes.
  * @apiBody {string} entry.author A comma-separated string of authors who have
  * contributed to the book.
  * @apiBody {number} entry.publication The initial publication year of this book. Negative
@@ -96,7 +318,7 @@ const verifyElement = (isValid, name, response) => {
  * @apiBody {Object} entry.ratings An object representing all the information for
  * consumer and critic ratings for the given book.
  * @apiBody {number} entry.ratings.average The mean value of all ratings for
- * this book. Must be within the range of 0 to 5 inclusive.
+ * this book. Must be within the range of 1 to 5 inclusive.
  * @apiBody {number} entry.ratings.count The total number of ratings for this book. Must be
  * positive.
  * @apiBody {number} entry.ratings.rating1 The total number of 1-star ratings for this book.
@@ -118,8 +340,13 @@ const verifyElement = (isValid, name, response) => {
  * within about <code>50x75</code> in pixels.
  *
  * @apiSuccess (201: Succesfully added) {String} message "Book successfully added."
+ * @apiSuccess (201: Succesfully added) {Object} result The book as stored, in the same form as
+ * <code>result</code> of <code>GET /books/isbns/:isbn</code>. The book and all of its authors are
+ * added together, or not at all.
  *
+ * @apiUse ErrorEnvelope
  * @apiError (400: Book exists) {String} message "Book exists"
+ * @apiError (400: Invalid entry) {String} message "Invalid or missing entry - please refer to documentation"
  * @apiError (400: Invalid ISBN) {String} message "Invalid or missing ISBN - please refer to documentation"
  * @apiError (400: Invalid Authors) {String} message "Invalid or missing Authors - please refer to documentation"
  * @apiError (400: Invalid Publication) {String} message "Invalid or missing Publication - please refer to documentation"
@@ -128,142 +355,310 @@ const verifyElement = (isValid, name, response) => {
  * @apiError (400: Invalid Rating) {String} message "Invalid or missing Rating - please refer to documentation"
  * @apiError (400: Invalid Image Url) {String} message "Invalid or missing Image Url - please refer to documentation"
  * @apiError (400: Invalid Image Small Url) {String} message "Invalid or missing Image Small Url - please refer to documentation"
+ * @apiUse ValidationErrors
+ * @apiUse InsufficientRole
  */
 booksRouter.post(
     '/',
-    (request: Request, response: Response, next: NextFunction) => {
-        verifyElement(
-            validationFunctions.isNumberProvided(request.body.entry.isbn13)
-                && request.body.entry.isbn13 >= 0,
-            "ISBN",
-            response
-        );
-        verifyElement(
-            validationFunctions.isStringProvided(request.body.entry.authors),
-            "Authors",
-            response
-        );
-        verifyElement(
-            validationFunctions.isNumberProvided(request.body.entry.publication)
-                && request.body.entry.publication >= 0,
-            "Publication",
-            response
-        );
-        verifyElement(
-            validationFunctions.isStringProvided(request.body.entry.original_title),
-            "Original Title",
-            response
-        );
-        verifyElement(
-            validationFunctions.isStringProvided(request.body.entry.title),
-            "Title",
-            response
-        );
-        const ratings = request.body.entry.ratings;
-        verifyElement(
-            ratings != null
-                && ratings.average != null && ratings.average >= 1 && ratings.average <= 5
-                && ratings.count   != null && ratings.count   >= 0
-                && ratings.rating1 != null && ratings.rating1 >= 0
-                && ratings.rating2 != null && ratings.rating2 >= 0
-                && ratings.rating3 != null && ratings.rating3 >= 0
-                && ratings.rating4 != null && ratings.rating4 >= 0
-                && ratings.rating5 != null && ratings.rating5 >= 0,
-            "Rating",
-            response
-        );
-        const icons = request.body.entry.icons;
-        verifyElement(
-            icons != null
-                && icons.large != null && validationFunctions.isStringProvided(icons.large),
-            "Image Url",
-            response
-        );
-        verifyElement(
-            icons != null
-                && icons.small != null && validationFunctions.isStringProvided(icons.small),
-            "Image Small Url",
-            response
-        );
-        next();
-    },
-    (request: IJwtRequest, response: Response) => {
-
-        const authors = request.body.entry.authors.split(", ");
-
-        const theQuery =
-            'INSERT INTO Books (isbn13, publication_year, original_title, title, rating_avg, rating_count, rating_1_star, rating_2_star, rating_3_star, rating_4_star, rating_5_star, image_url, image_small_url) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING *';
-        const values = [
-            request.body.entry.isbn13,
-            request.body.entry.publication,
-            request.body.entry.original_title,
-            request.body.entry.title,
-            request.body.entry.ratings.average,
-            request.body.entry.ratings.count,
-            request.body.entry.ratings.rating1,
-            request.body.entry.ratings.rating2,
-            request.body.entry.ratings.rating3,
-            request.body.entry.ratings.rating4,
-            request.body.entry.ratings.rating5,
-            request.body.entry.icons.large,
-            request.body.entry.icons.small,
-        ];
+    checkRole(Role.Editor),
+    validate(postBookSchema),
+    async (
+        request: IValidRequest<typeof postBookSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const book = entryToBook(request.valid.body.entry);
 
-        pool.query(theQuery, values)
-        .then((queryRes) => {
-            const isbn13 = queryRes.rows[0].isbn13;
-    
-            let ids = [];
-    
-            authors.forEach((author) => {
-                const theQuery = `
-                    INSERT INTO Author (author_name) 
-                    VALUES ($1)
-                    ON CONFLICT (author_name) DO UPDATE 
-                    SET author_name = EXCLUDED.author_name
-                    RETURNING author_id;`;
-                
-                pool.query(theQuery, [author])
-                    .then((queryRes) => {
-                        const id = queryRes.rows[0].author_id;
-                        ids.push(id); 
-                        const theQuery = `
-                            INSERT INTO books_authors (isbn13, author_id) 
-                            VALUES ($1, $2) 
-                            ON CONFLICT (isbn13, author_id) DO NOTHING;
-                            `;
-                        
-                        pool.query(theQuery, [isbn13, id])
-                            .catch((error) => {
-                                console.error('Error inserting into books_authors:', error);
-                            })
-                    })
-                    .catch((error) => {
-                        console.error('Error inserting author:', error);
-                    })
-            });
-    
+        let client: PoolClient;
+        try {
+            client = await pool.connect();
+            await client.query('BEGIN');
+            const result = await createBook(client, book);
+            await client.query('COMMIT');
             response.status(201).send({
-                message: 'Book successfully added.'
+                message: 'Book successfully added.',
+                result,
             });
-        })
-            .catch((error) => {
-                if (
-                    error.detail != undefined &&
-                    (error.detail as string).endsWith('already exists.')
-                ) {
-                    console.error('Book exists');
-                    response.status(400).send({
-                        message: 'Book exists',
-                    });
+        } catch (error) {
+            await client?.query('ROLLBACK');
+            next(error);
+        } finally {
+            client?.release();
+        }
+    }
+);
+
+// the columns of books.csv, in the order of its header
+const csvColumns = [
+    'book_id',
+    'isbn13',
+    'authors',
+    'original_publication_year',
+    'original_title',
+    'title',
+    'average_rating',
+    'ratings_count',
+    'ratings_1',
+    'ratings_2',
+    'ratings_3',
+    'ratings_4',
+    'ratings_5',
+    'image_url',
+    'small_image_url',
+];
+const maxImportRows = 10000;
+// large enough for maxImportRows books as CSV or as JSON
+const importBodyLimit = '5mb';
+const importBatchSize = 500;
+
+const importSchema = {
+    query: {
+        dryRun: {
+            type: 'boolean',
+            optional: true,
+            default: false,
+            message: 'Invalid dryRun - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+interface IImportRow {
+    row: number;
+    isbn13: number | null;
+    status: 'inserted' | 'updated' | 'rejected';
+    reasons: string[];
+}
+
+/**
+ * Reads a row of a books.csv style file into a book, in the form of a row of a JSON
+ * import. Empty numeric fields are left undefined so they fail validation rather than
+ * reading as 0, and the ISBN is left as text so it may have hyphens or be an ISBN-10.
+ *
+ * @param {Record<string, string>} record the fields of the row by column name
+ */
+const csvToBook = (record: Record<string, string>) => {
+    const num = (column: string) =>
+        record[column] == '' ? undefined : Number(record[column]);
+    return {
+        isbn13: record.isbn13,
+        authors: record.authors,
+        publication: num('original_publication_year'),
+        original_title: record.original_title,
+        title: record.title,
+        ratings: {
+            average: num('average_rating'),
+            count: num('ratings_count'),
+            rating_1: num('ratings_1'),
+            rating_2: num('ratings_2'),
+            rating_3: num('ratings_3'),
+            rating_4: num('ratings_4'),
+            rating_5: num('ratings_5'),
+        },
+        icons: {
+            large: record.image_url,
+            small: record.small_image_url,
+        },
+    };
+};
+
+/**
+ * @api {post} /books/import Request to import many books
+ * @apiName PostBooksImport
+ * @apiGroup Books
+ * @apiPermission editor
+ * @apiDescription Add or update many books at once. Each row is checked with the same
+ * rules as <code>POST /books</code>. Valid rows are written in batches of 500 inside one
+ * transaction: a book whose ISBN is already in the catalog is updated, and its authors
+ * replaced, rather than rejected. Invalid rows, and rows that cannot be saved, are
+ * rejected without stopping the rest of the import.
+ *
+ * The body is either a CSV file, sent as <code>text/csv</code>, with the same header and
+ * columns as <code>books.csv</code> (<code>book_id</code> is ignored), or a JSON array of
+ * books in the same form as <code>result</code> of <code>GET /books/isbns/:isbn</code>.
+ * Bodies may be up to 5 MB. At most 10000 rows can be imported at once.
+ *
+ * @apiQuery {boolean} [dryRun=false] <code>true</code> to check and report on the rows
+ * without saving any of them.
+ *
+ * @apiSuccess {boolean} dryRun <code>true</code> if nothing was saved.
+ * @apiSuccess {Object} summary The number of rows with each status.
+ * @apiSuccess {number} summary.inserted The number of books added.
+ * @apiSuccess {number} summary.updated The number of existing books updated.
+ * @apiSuccess {number} summary.rejected The number of rows not saved.
+ * @apiSuccess {Object[]} rows A report on every row, in the order they were sent.
+ * @apiSuccess {number} rows.row The position of the row, from 1, not counting the CSV header.
+ * @apiSuccess {number} rows.isbn13 The ISBN of the row, or null if it has no valid ISBN.
+ * @apiSuccess {string} rows.status One of <code>inserted</code>, <code>updated</code>
+ * or <code>rejected</code>.
+ * @apiSuccess {string[]} rows.reasons Why the row was rejected, empty otherwise: the
+ * messages <code>POST /books</code> gives for the invalid fields of the row, <code>Duplicate
+ * ISBN in import</code> or <code>Could not be saved</code>.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiError (400: Invalid dryRun) {String} message "Invalid dryRun - please refer to documentation"
+ * @apiError (400: Missing books) {String} message "Missing books - please refer to documentation"
+ * @apiError (400: Invalid CSV) {String} message "Invalid CSV - please refer to documentation"
+ * @apiError (400: Missing CSV column) {String} message "Missing CSV column &lt;column&gt; - please refer to documentation"
+ * @apiError (400: Too many rows) {String} message "Too many rows - at most 10000 rows can be imported at once"
+ * @apiUse ValidationErrors
+ * @apiUse InsufficientRole
+ */
+booksRouter.post(
+    '/import',
+    checkRole(Role.Editor),
+    validate(importSchema),
+    express.json({ limit: importBodyLimit }),
+    express.text({ type: ['text/csv', 'text/plain'], limit: importBodyLimit }),
+    (request: Request, response: Response, next: NextFunction) => {
+        if (typeof request.body == 'string') {
+            let records: string[][];
+            try {
+                records = csvFunctions.parseCsv(request.body);
+            } catch (error) {
+                next(
+                    new BadRequestError(
+                        'Invalid CSV - please refer to documentation'
+                    )
+                );
+                return;
+            }
+            const header = (records.shift() ?? []).map((column) =>
+                column.trim().toLowerCase()
+            );
+            const missing = csvColumns.find(
+                (column) => column != 'book_id' && !header.includes(column)
+            );
+            if (missing != undefined) {
+                next(
+                    new BadRequestError(
+                        'Missing CSV column ' +
+                            missing +
+                            ' - please refer to documentation'
+                    )
+                );
+                return;
+            }
+            request.body = records.map((fields) =>
+                csvToBook(
+                    Object.fromEntries(
+                        header.map((column, i) => [column, fields[i] ?? ''])
+                    )
+                )
+            );
+        }
+
+        if (!Array.isArray(request.body) || request.body.length == 0) {
+            next(
+                new BadRequestError(
+                    'Missing books - please refer to documentation'
+                )
+            );
+        } else if (request.body.length > maxImportRows) {
+            next(
+                new BadRequestError(
+                    'Too many rows - at most ' +
+                        maxImportRows +
+                        ' rows can be imported at once'
+                )
+            );
+        } else {
+            next();
+        }
+    },
+    async (
+        request: IValidRequest<typeof importSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const books: unknown[] = request.body;
+        const dryRun = request.valid.query.dryRun;
+
+        const report: IImportRow[] = [];
+        const valid: [IImportRow, IBook][] = [];
+        const seen = new Set<number>();
+        books.forEach((book, i) => {
+            const checked = checkSchema(
+                bookEntryFields,
+                bookToEntry(book),
+                'body'
+            );
+            // the ratings share a message, so a row may break the same rule twice
+            const reasons = Array.from(
+                new Set(
+                    checked.violations.map((violation) => violation.message)
+                )
+            );
+            // the ISBN read as by POST /books, so an ISBN-10 is stored as its ISBN-13
+            const isbn13: number | null = checked.value.isbn13 ?? null;
+            if (isbn13 != null && seen.has(isbn13)) {
+                reasons.push('Duplicate ISBN in import');
+            }
+            seen.add(isbn13);
+            const row: IImportRow = {
+                row: i + 1,
+                isbn13,
+                status: 'rejected',
+                reasons,
+            };
+            report.push(row);
+            if (reasons.length == 0) {
+                valid.push([row, entryToBook(checked.value)]);
+            }
+        });
+
+        let client: PoolClient;
+        // writes a batch under a savepoint, so a failed batch can be undone alone
+        const saveBatch = async (batch: [IImportRow, IBook][]) => {
+            await client.query('SAVEPOINT import_batch');
+            try {
+                const inserted = await upsertBooks(
+                    client,
+                    batch.map(([, book]) => book)
+                );
+                await client.query('RELEASE SAVEPOINT import_batch');
+                batch.forEach(([row]) => {
+                    row.status = inserted.has(row.isbn13)
+                        ? 'inserted'
+                        : 'updated';
+                });
+            } catch (error) {
+                await client.query('ROLLBACK TO SAVEPOINT import_batch');
+                if (batch.length > 1) {
+                    // find the rows at fault by saving the batch one row at a time
+                    for (const entry of batch) {
+                        await saveBatch([entry]);
+                    }
                 } else {
-                    console.error('DB Query error on POST');
-                    console.error(error);
-                    response.status(500).send({
-                        message: 'server error - contact support',
-                    });
+                    batch[0][0].reasons.push('Could not be saved');
                 }
+            }
+        };
+
+        try {
+            client = await pool.connect();
+            await client.query('BEGIN');
+            for (let i = 0; i < valid.length; i += importBatchSize) {
+                await saveBatch(valid.slice(i, i + importBatchSize));
+            }
+            await client.query(dryRun ? 'ROLLBACK' : 'COMMIT');
+
+            const count = (status: IImportRow['status']) =>
+                report.filter((row) => row.status == status).length;
+            response.send({
+                dryRun,
+                summary: {
+                    inserted: count('inserted'),
+                    updated: count('updated'),
+                    rejected: count('rejected'),
+                },
+                rows: report,
             });
+        } catch (error) {
+            await client?.query('ROLLBACK');
+            next(error);
+        } finally {
+            client?.release();
+        }
     }
 );
 
@@ -274,9 +669,11 @@ booksRouter.post(
  * @apiDescription Retrieve a book from the database that matches an exact 13-digit
  * ISBN number.
  *
- * @apiParam {number} isbn A 13-digit ISBN integer. Must be within the range of
- * <code> 0 <= isbn < 10^13</code>. While 13 digits are strictly required, values
- * less than <code> 10^12 </code> are interpreted as having leading zeros.
+ * @apiParam {string} isbn The ISBN of the book, either an ISBN-13 or an ISBN-10, with or
+ * without hyphens, e.g. <code>978-0439023481</code> or <code>0-439-02348-3</code>. Its check
+ * digit must be valid, except that the <code>isbn13</code> of any book returned by the API
+ * is also accepted: the books first loaded into the catalog are stored under their ISBN-13
+ * rounded to the nearest ten.
  *
  * @apiSuccess {Object} result The book that matches the exact ISBN number provided
  * as a query parameter.
@@ -305,32 +702,25 @@ booksRouter.post(
  * in pixels.
  * @apiSuccess {string} result.icons.small The url whose destination matches the
  * image for this book. On average, image sizes fall within about <code>50x75</code>
+ * @apiSuccess {Object[]} result.author_list The authors of the book, by name.
+ * @apiSuccess {number} result.author_list.id The id of the author, for the
+ * <code>/authors</code> routes.
+ * @apiSuccess {string} result.author_list.name The name of the author.
  *
+ * @apiUse ErrorEnvelope
  * @apiError (404: No book with given ISBN) {String} message "No book with given ISBN"
- * @apiError (400: Query parameter wrong type) {String} message "Query parameter not of required type - please refer to documentation"
- * @apiError (400: ISBN not in range) {String} message "ISBN not in range - please refer to documentation"
- * @apiError (400: Empty query parameter) {String} message "No query parameter in url - please refer to documentation"
+ * @apiError (400: Invalid ISBN) {String} message "Invalid ISBN - please refer to documentation"
+ * @apiUse ValidationErrors
  */
 booksRouter.get(
     '/isbns/:isbn',
-    (request: Request, response: Response, next: NextFunction) => {
-        if (request.params.isbn === null || request.params.isbn === undefined) {
-            response.status(400).send({
-                message: 'No query parameter in url - please refer to documentation',
-            });
-        } else if (!validationFunctions.isNumberProvided(request.params.isbn)) {
-            response.status(400).send({
-                message: 'Query parameter not of required type - please refer to documentation',
-            });
-        } else if (Number(request.params.isbn) < 0 || Number(request.params.isbn) > Math.pow(10, 13)) {
-            response.status(400).send({
-                message: 'ISBN not in range - please refer to documentation',
-            });
-        }
-        next();
-    },
-    (request: IJwtRequest, response: Response) => {
-    const theQuery = `SELECT 
+    validate(isbnLookupSchema),
+    (
+        request: IValidRequest<typeof isbnLookupSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery = `SELECT 
     b.isbn13,
     b.title,                         
     b.original_title,                
@@ -344,7 +734,8 @@ booksRouter.get(
     b.rating_5_star,                 
     b.image_url,                     
     b.image_small_url,               
-    string_agg(a.Author_name, ', ' ORDER BY a.Author_name) AS authors
+    string_agg(a.Author_name, ', ' ORDER BY a.Author_name) AS authors,
+    ${authorListColumn}
 FROM 
     books b
 JOIN 
@@ -352,47 +743,41 @@ JOIN
 JOIN 
     Author a ON ba.Author_id = a.Author_id
 WHERE
-    b.isbn13 = $1
+    b.isbn13 = ${storedIsbn('$1')}
 GROUP BY 
     b.isbn13, b.title, b.original_title, b.publication_year, 
     b.rating_avg, b.rating_count, b.rating_1_star, b.rating_2_star,
-    b.rating_3_star, b.rating_4_star, b.rating_5_star, b.image_url, b.image_small_url;` 
+    b.rating_3_star, b.rating_4_star, b.rating_5_star, b.image_url, b.image_small_url;`;
 
+        const values = [catalogIsbns(request.valid.params.isbn)];
 
-    const values = [request.params.isbn];
-
-    pool.query(theQuery, values)
-        .then((result) => {
-            if (result.rowCount == 1) {
-                response.send({
-                    result: toBook(result.rows[0]),
-                });
-            } else {
-                response.status(404).send({
-                    message: 'No book with given ISBN',
-                });
-            }
-        })
-        .catch((error) => {
-            //log the error
-            console.error('DB Query error on GET /isbns/:isbn');
-            console.error(error);
-            response.status(500).send({
-                message: 'server error - contact support',
-            });
-        });
-});
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 1) {
+                    response.send({
+                        result: toBook(result.rows[0]),
+                    });
+                } else {
+                    next(new NotFoundError('No book with given ISBN'));
+                }
+            })
+            .catch((error) => next(error));
+    }
+);
 
 /**
  * @api {delete} /books/isbns/:isbn Delete book by ISBN
  * @apiName DeleteBookByISBN
  * @apiGroup Books
+ * @apiPermission editor
  * @apiDescription Delete a book from the database that matches an exact 13-digit
  * ISBN number.
  *
- * @apiParam {number} isbn A 13-digit ISBN integer. Must be within the range of
- * <code> 0 <= isbn < 10^13</code>. While 13 digits are strictly required, values
- * less than <code> 10^12 </code> are interpreted as having leading zeros.
+ * @apiParam {string} isbn The ISBN of the book, either an ISBN-13 or an ISBN-10, with or
+ * without hyphens, e.g. <code>978-0439023481</code> or <code>0-439-02348-3</code>. Its check
+ * digit must be valid, except that the <code>isbn13</code> of any book returned by the API
+ * is also accepted: the books first loaded into the catalog are stored under their ISBN-13
+ * rounded to the nearest ten.
  *
  * @apiSuccess {Object} result The book that matches the exact ISBN number provided
  * as a query parameter.
@@ -422,31 +807,22 @@ GROUP BY
  * @apiSuccess {string} result.icons.small The url whose destination matches the
  * image for this book. On average, image sizes fall within about <code>50x75</code>
  *
+ * @apiUse ErrorEnvelope
  * @apiError (404: No book with given ISBN) {String} message "No book with given ISBN"
- * @apiError (400: Query parameter wrong type) {String} message "Query parameter not of required type - please refer to documentation"
- * @apiError (400: ISBN not in range) {String} message "ISBN not in range - please refer to documentation"
- * @apiError (400: Empty query parameter) {String} message "No query parameter in url - please refer to documentation"
+ * @apiError (400: Invalid ISBN) {String} message "Invalid ISBN - please refer to documentation"
+ * @apiUse ValidationErrors
+ * @apiUse InsufficientRole
  */
 booksRouter.delete(
     '/isbns/:isbn',
-    (request: Request, response: Response, next: NextFunction) => {
-        if (request.params.isbn === null || request.params.isbn === undefined) {
-            response.status(400).send({
-                message: 'No query parameter in url - please refer to documentation',
-            });
-        } else if (!validationFunctions.isNumberProvided(request.params.isbn)) {
-            response.status(400).send({
-                message: 'Query parameter not of required type - please refer to documentation',
-            });
-        } else if (Number(request.params.isbn) < 0 || Number(request.params.isbn) > Math.pow(10, 13)) {
-            response.status(400).send({
-                message: 'ISBN not in range - please refer to documentation',
-            });
-        }
-        next();
-    },
-    (request: IJwtRequest, response: Response) => {
-    const theQuery = `WITH delete_book AS (
+    checkRole(Role.Editor),
+    validate(isbnLookupSchema),
+    (
+        request: IValidRequest<typeof isbnLookupSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery = `WITH delete_book AS (
     SELECT
     b.isbn13,
     b.title,                         
@@ -469,15 +845,15 @@ JOIN
 JOIN 
     Author a ON ba.Author_id = a.Author_id
 WHERE
-    b.isbn13 = $1
+    b.isbn13 = ${storedIsbn('$1')}
 GROUP BY 
     b.isbn13, b.title, b.original_title, b.publication_year, 
     b.rating_avg, b.rating_count, b.rating_1_star, b.rating_2_star,
     b.rating_3_star, b.rating_4_star, b.rating_5_star, b.image_url, b.image_small_url
 )
-DELETE FROM Books WHERE isbn13 = $1 RETURNING *, (SELECT authors FROM delete_book)` 
+DELETE FROM Books WHERE isbn13 = ${storedIsbn('$1')} RETURNING *, (SELECT authors FROM delete_book)`;
 
-        const values = [request.params.isbn];
+        const values = [catalogIsbns(request.valid.params.isbn)];
 
         pool.query(theQuery, values)
             .then((result) => {
@@ -486,22 +862,218 @@ DELETE FROM Books WHERE isbn13 = $1 RETURNING *, (SELECT authors FROM delete_boo
                         result: toBook(result.rows[0]),
                     });
                 } else {
-                    response.status(404).send({
-                        message: 'No book with given ISBN',
-                    });
+                    next(new NotFoundError('No book with given ISBN'));
                 }
             })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on DELETE /isbns/:isbn');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
+            .catch((error) => next(error));
+    }
+);
+
+const patchBookSchema = {
+    params: isbnParams,
+    body: {
+        authors: {
+            type: 'string',
+            optional: true,
+            message: 'Invalid authors - please refer to documentation',
+        },
+        publication: {
+            type: 'number',
+            min: 0,
+            optional: true,
+            message: 'Invalid publication - please refer to documentation',
+        },
+        original_title: {
+            type: 'string',
+            optional: true,
+            message: 'Invalid original title - please refer to documentation',
+        },
+        title: {
+            type: 'string',
+            optional: true,
+            message: 'Invalid title - please refer to documentation',
+        },
+        icons: {
+            type: 'object',
+            optional: true,
+            message: 'Invalid icons - please refer to documentation',
+            fields: {
+                large: {
+                    type: 'string',
+                    optional: true,
+                    message:
+                        'Invalid image url - please refer to documentation',
+                },
+                small: {
+                    type: 'string',
+                    optional: true,
+                    message:
+                        'Invalid image small url - please refer to documentation',
+                },
+            },
+        },
+    },
+    refine: ({ body }) =>
+        [
+            body.authors,
+            body.publication,
+            body.original_title,
+            body.title,
+            ...Object.values(body.icons ?? {}),
+        ].some((value) => value !== undefined)
+            ? []
+            : [
+                  {
+                      location: 'body',
+                      field: '',
+                      message:
+                          'No fields to update - please refer to documentation',
+                  },
+              ],
+} satisfies IRequestSchemas;
+
+/**
+ * @api {patch} /books/isbns/:isbn Partially update a book
+ * @apiName PatchBookByISBN
+ * @apiGroup Books
+ * @apiPermission editor
+ * @apiDescription Update any subset of the fields of a book that matches an exact 13-digit
+ * ISBN number. Fields omitted from the body are left untouched. When <code>authors</code> is
+ * provided, the authors linked to the book are replaced by the authors in the new string.
+ * The ratings of a book cannot be changed here: they follow the ratings readers give with
+ * <code>POST /books/isbns/:isbn/my-rating</code>.
+ *
+ * @apiParam {string} isbn The ISBN of the book, in any form accepted by
+ * <code>GET /books/isbns/:isbn</code>.
+ *
+ * @apiBody {string} [authors] A comma-separated string of authors who have
+ * contributed to the book.
+ * @apiBody {number} [publication] The initial publication year of this book. Negative
+ * years are not allowed.
+ * @apiBody {string} [original_title] The title of the series this book was printed in.
+ * @apiBody {string} [title] The title of the book.
+ * @apiBody {Object} [icons] An object holding any of the image urls for the book.
+ * @apiBody {string} [icons.large] The url of the large image for this book.
+ * @apiBody {string} [icons.small] The url of the small image for this book.
+ *
+ * @apiSuccess {Object} result The book after the update has been applied, in the same
+ * form as returned by <code>GET /books/isbns/:isbn</code>.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiError (404: No book with given ISBN) {String} message "No book with given ISBN"
+ * @apiError (400: Invalid ISBN) {String} message "Invalid ISBN - please refer to documentation"
+ * @apiError (400: No fields to update) {String} message "No fields to update - please refer to documentation"
+ * @apiError (400: Invalid field) {String} message "Invalid <code>field</code> - please refer to documentation"
+ * @apiUse ValidationErrors
+ * @apiUse InsufficientRole
+ */
+booksRouter.patch(
+    '/isbns/:isbn',
+    checkRole(Role.Editor),
+    validate(patchBookSchema),
+    async (
+        request: IValidRequest<typeof patchBookSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const body = request.valid.body;
+
+        // maps the Books columns to their (possibly omitted) value in the request
+        const updates: [string, unknown][] = [
+            ['publication_year', body.publication],
+            ['original_title', body.original_title],
+            ['title', body.title],
+            ['image_url', body.icons?.large],
+            ['image_small_url', body.icons?.small],
+        ].filter(([, value]) => value !== undefined) as [string, unknown][];
+
+        let client: PoolClient;
+        try {
+            client = await pool.connect();
+            await client.query('BEGIN');
+
+            // lock the row (and confirm it exists) before touching anything else
+            const existing = await client.query(
+                `SELECT isbn13 FROM Books WHERE isbn13 = ${storedIsbn('$1')} FOR UPDATE`,
+                [catalogIsbns(request.valid.params.isbn)]
+            );
+            if (existing.rowCount == 0) {
+                await client.query('ROLLBACK');
+                next(new NotFoundError('No book with given ISBN'));
+                return;
+            }
+            const isbn: number = Number(existing.rows[0].isbn13);
+
+            if (updates.length > 0) {
+                const setClause = updates
+                    .map(([column], i) => `${column} = $${i + 2}`)
+                    .join(', ');
+                await client.query(
+                    `UPDATE Books SET ${setClause} WHERE isbn13 = $1`,
+                    [isbn, ...updates.map(([, value]) => value)]
+                );
+            }
+
+            if (body.authors !== undefined) {
+                await linkAuthors(client, isbn, body.authors);
+            }
+
+            const result = await selectBook(client, isbn);
+
+            await client.query('COMMIT');
+            response.send({
+                result,
             });
+        } catch (error) {
+            await client?.query('ROLLBACK');
+            next(error);
+        } finally {
+            client?.release();
+        }
     }
 );
 
+const ratingSchema = {
+    body: {
+        min: {
+            type: 'number',
+            check: (min) => min > 0,
+            message:
+                'Missing or invalid lower-bound parameter - please refer to documentation',
+        },
+        max: {
+            type: 'number',
+            message:
+                'Missing or invalid upper-bound parameter - please refer to documentation',
+        },
+        order: {
+            type: 'string',
+            oneOf: ['min-first', 'max-first'],
+            message:
+                'Missing ordering field in http body - please refer to documentation',
+            invalidMessage:
+                'Ordering field must be one of set options - please refer to documentation',
+        },
+        ...keysetFields,
+    },
+    refine: ({ body }) =>
+        body.max < body.min
+            ? [
+                  {
+                      location: 'body',
+                      field: 'max',
+                      message:
+                          'The lower bound for the interval is greater than the upper bound - please refer to documentation',
+                  },
+              ]
+            : cursorViolations(
+                  'body',
+                  body.cursor,
+                  'rating',
+                  body.order == 'min-first' ? 'ASC' : 'DESC'
+              ),
+} satisfies IRequestSchemas;
+
 /**
  * @api {POST} /books/rating Request books by rating
  * @apiName GetBookByRating
@@ -518,6 +1090,11 @@ DELETE FROM Books WHERE isbn13 = $1 RETURNING *, (SELECT authors FROM delete_boo
  * this route returns.
  * @apiBody {string} order The ordering of the returned books. The only two allowed
  * strings are: <code> "min-first" </code> or <code> "max-first" </code>.
+ * @apiBody {number} [limit] The number of books to return per page. When either
+ * <code>limit</code> or <code>cursor</code> is provided the results are paginated;
+ * otherwise every matching book is returned at once.
+ * @apiBody {string} [cursor] The <code>nextCursor</code> or <code>prevCursor</code>
+ * returned by a previous call with the same <code>order</code>.
  *
  * @apiSuccess {Object[]} results An aggregate of all books that fall within the
  * average rating interval.
@@ -547,69 +1124,37 @@ DELETE FROM Books WHERE isbn13 = $1 RETURNING *, (SELECT authors FROM delete_boo
  * @apiSuccess {string} results.icons.small The url whose destination matches the
  * image for this book. On average, image sizes fall within about <code>50x75</code>
  *
+ * @apiUse KeysetPagination
+ *
+ * @apiUse ErrorEnvelope
  * @apiError (404: No books with given average rating interval) {String} message "No books fall within the interval requested"
  * @apiError (400: Lower-bound greater than upper-bound) {String} message "The lower bound for the interval is greater than the upper bound - please refer to documentation"
  * @apiError (400: Missing lower-bound) {String} message "Missing or invalid lower-bound parameter - please refer to documentation"
  * @apiError (400: Missing upper-bound) {String} message "Missing or invalid upper-bound parameter - please refer to documentation"
  * @apiError (400: Missing ordering field in body) {String} message "Missing ordering field in http body - please refer to documentation"
  * @apiError (400: Ordering field not in required form) {String} message "Ordering field must be one of set options - please refer to documentation"
+ * @apiError (400: Invalid limit) {String} message "Invalid limit - please refer to documentation"
+ * @apiError (400: Invalid cursor) {String} message "Invalid cursor - please refer to documentation"
+ * @apiUse ValidationErrors
  */
 booksRouter.post(
     '/rating',
-    (request: IJwtRequest, response: Response, next: NextFunction) => {
-        if (validationFunctions.isNumberProvided(request.body.min)
-            && validationFunctions.isNumberProvided(request.body.min)
-            && validationFunctions.isStringProvided(request.body.order)) {
-            const min: number = request.body.min as number;
-            const max: number = request.body.max as number;
-            const order: string = request.body.order as string;
-            if (min <= 0) {
-                console.error('Invalid or missing range');
-                response.status(400).send({
-                    message:
-                        'Missing or invalid lower-bound parameter - please refer to documentation',
-                });
-            } else if (max < min) {
-                console.error('Invalid or missing range');
-                response.status(400).send({
-                    message:
-                        'The lower bound for the interal is greater than the upper bound - please refer to documentation',
-                });
-            } else if (order != 'min-first' && order != 'max-first') {
-                response.status(400).send({
-                    message:
-                        'Ordering field must be one of set options - please refer to documentation',
-                });
-            } else {
-                next();
-            }
-        } else if (!validationFunctions.isNumberProvided(request.body.min)) {
-            console.error('Invalid or missing range');
-            response.status(400).send({
-                message:
-                    'Missing or invalid lower-bound parameter - please refer to documentation',
-            });
-        } else if (!validationFunctions.isNumberProvided(request.body.max)){
-            console.error('Invalid or missing range');
-            response.status(400).send({
-                message:
-                    'Missing or invalid upper-bound parameter - please refer to documentation',
-            });
-        } else {
-            console.error('Invalid or missing range');
-            response.status(400).send({
-                message:
-                    'Missing ordering field in http body - please refer to documentation',
-            });
-        }
-    },
-    (request: IJwtRequest, response: Response) => {
-        const min: number = request.body.min as number;
-        const max: number = request.body.max as number;
-        const order: string = request.body.order as string;
+    validate(ratingSchema),
+    (
+        request: IValidRequest<typeof ratingSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const { min, max, order } = request.valid.body;
         const orderBy =
             order == 'min-first' ? 'rating_avg ASC' : 'rating_avg DESC';
-    const theQuery = `SELECT 
+        const keyset = keysetOptions(
+            request.valid.body,
+            'rating',
+            order == 'min-first' ? 'ASC' : 'DESC',
+            3
+        );
+        const theQuery = `SELECT 
     b.isbn13,
     b.title,                         
     b.original_title,                
@@ -629,219 +1174,42 @@ FROM
 JOIN 
     Books_Authors ba ON b.isbn13 = ba.isbn13
 JOIN 
-    Author a ON ba.Author_id = a.Author_id
-WHERE
-    rating_avg >= $1 AND rating_avg <= $2 
-GROUP BY 
-    b.isbn13, b.title, b.original_title, b.publication_year, 
-    b.rating_avg, b.rating_count, b.rating_1_star, b.rating_2_star,
-    b.rating_3_star, b.rating_4_star, b.rating_5_star, b.image_url, b.image_small_url
-    ORDER BY ${orderBy}
-;` 
-
-        const values = [min, max];
-
-        pool.query(theQuery, values)
-            .then((result) => {
-                response.send({
-                    results: result.rows.map((b) => toBook(b))
-                });
-            })
-            .catch((error) => {
-                if (
-                    error.detail != undefined &&
-                    (error.detail as string).endsWith('already exists.')
-                ) {
-                    console.error('Name exists');
-                    response.status(400).send({
-                        message: 'Name exists',
-                    });
-                } else {
-                    console.error('DB Query error on GET');
-                    console.error(error);
-                    response.status(500).send({
-                        message: 'server error - contact support',
-                    });
-                }
-            });
-    }
-);
-
-/**
- * @api {put} /books/rating/:isbn/ Update book ratings
- * @apiName UpdateBookRating
- * @apiGroup Books
- * @apiDescription Update the rating object for a specific book in the database.
- *
- * @apiParam {number} isbn A 13-digit ISBN integer. Must be within the range of
- * <code>10^12 <= isbn < 10^13</code>
- *
- * @apiBody {Object} ratings An object representing all the information for
- * consumer and critic ratings for the given book.
- * @apiBody {number} ratings.average The mean value of all ratings for this
- * book. The value should be between 1 and 5 inclusive.
- * @apiBody {number} ratings.count The total number of ratings for this book. Must be
- * positive.
- * @apiBody{number} ratings.rating1 The total number of 1-star ratings for this book.
- * Must by positive.
- * @apiBody {number} ratings.rating2 The total number of 2-star ratings for this book.
- * Must by positive.
- * @apiBody {number} ratings.rating3 The total number of 3-star ratings for this book.
- * Must by positive.
- * @apiBody {number} ratings.rating4 The total number of 4-star ratings for this book.
- * Must by positive.
- * @apiBody {number} ratings.rating5 The total number of 5-star ratings for this book.
- * Must by positive.
- *
- * @apiSuccess {Object} result The book whose ratings are being updated.
- * @apiSuccess {number} result.isbn13 The ISBN number for the book.
- * @apiSuccess {string} result.author A comma-separated string of authors who have
- * contributed to the book.
- * @apiSuccess {number} result.publication The initial publication date of this book.
- * @apiSuccess {string} result.original_title The title of the series this book was
- * printed in. If not in a series, it is a copy of the title attribute. Note that you
- * cannot consisently rely upon <code>original_title</code> to be applied applicably to
- * serial publications.
- * @apiSuccess {string} result.title The title of the book.
- * @apiSuccess {Object} result.ratings An object representing all the information for
- * consumer and critic ratings for the given book.
- * @apiSuccess {float} result.ratings.average The mean value of all ratings for
- * this book.
- * @apiSuccess {number} result.ratings.count The total number of ratings for this book.
- * @apiSuccess {number} result.ratings.rating1 The total number of 1-star ratings for this book.
- * @apiSuccess {number} result.ratings.rating2 The total number of 2-star ratings for this book.
- * @apiSuccess {number} result.ratings.rating3 The total number of 3-star ratings for this book.
- * @apiSuccess {number} result.ratings.rating4 The total number of 4-star ratings for this book.
- * @apiSuccess {number} result.ratings.rating5 The total number of 5-star ratings for this book.
- * @apiSuccess {Object} result.icons An object holding the urls for the images of this book.
- * @apiSuccess {string} result.icons.large The url whose destination matches an
- * image for this book. On average, image sizes fall within about <code>98x147</code>
- * in pixels.
- * @apiSuccess {string} result.icons.small The url whose destination matches the
- * image for this book. On average, image sizes fall within about <code>50x75</code>
- *
- * @apiError (404: No book with given ISBN) {String} message "No book with given ISBN"
- * @apiError (400: Query parameter wrong type) {String} message "Query parameter not of required type - please refer to documentation"
- * @apiError (400: Empty query parameter) {String} message "No query parameter in url - please refer to documentation"
- * @apiError (400: ISBN not in range) {String} message "ISBN not in range - please refer to documentation"
- * @apiError (400: Invalid rating average) {String} message "Rating average is not in range of 1 to 5 inclusive - please refer to documentation"
- * @apiError (400: Invalid rating count) {String} message "Rating count must be positive - please refer to documentation"
- * @apiError (400: Missing body fields) {String} message "Missing fields within the body - please refer to documentation"
- */
-booksRouter.put(
-    '/rating/:isbn', 
-    (request: Request, response: Response, next: NextFunction) => {
-        if (request.params.isbn === null || request.params.isbn === undefined) {
-            response.status(400).send({
-                message: 'No query parameter in url - please refer to documentation',
-            });
-        } else if (!validationFunctions.isNumberProvided(request.params.isbn)) {
-            response.status(400).send({
-                message: 'Query parameter not of required type - please refer to documentation',
-            });
-        } else if (Number(request.params.isbn) < 0 || Number(request.params.isbn) > Math.pow(10, 13)) {
-            response.status(400).send({
-                message: 'ISBN not in range - please refer to documentation',
-            });
-        }
-        next();
-    },
-    (request: IJwtRequest, response: Response, next: NextFunction) => {
-        const toCheck = [
-            request.body.ratings.average,
-            request.body.ratings.count,
-            request.body.ratings.rating1,
-            request.body.ratings.rating2,
-            request.body.ratings.rating3,
-            request.body.ratings.rating4,
-            request.body.ratings.rating5
-        ];
-
-        for (let i = 0; i < toCheck.length; i++) {
-            if (!validationFunctions.isNumberProvided(toCheck[i])) {
-                response.status(400).send({
-                    message:
-                        'Missing fields within the body - please refer to documentation',
-                });
-            } else {
-                toCheck[i] = toCheck[i] as number;
-            }
-        }
-
-        for (let i = 0; i < 6; i++) {
-            if (toCheck[i + 1] < 0) {
-                response.status(400).send({
-                    message:
-                        'Rating count must be positive - please refer to documenation',
-                });
-            }
-        }
+    Author a ON ba.Author_id = a.Author_id
+WHERE
+    rating_avg >= $1 AND rating_avg <= $2 ${keyset.condition ? 'AND ' + keyset.condition : ''}
+GROUP BY 
+    b.isbn13, b.title, b.original_title, b.publication_year, 
+    b.rating_avg, b.rating_count, b.rating_1_star, b.rating_2_star,
+    b.rating_3_star, b.rating_4_star, b.rating_5_star, b.image_url, b.image_small_url
+    ${keyset.suffix || 'ORDER BY ' + orderBy}
+;`;
 
-        const rating_avg: number = toCheck[0];
-        if (rating_avg > 5 || rating_avg < 1) {
-            response.status(400).send({
-                message:
-                    'Rating average is not in range of 1 to 5 inclusive - please refer to documentation',
-            });
-        } else {
-            next();
-        }
-    },
-    (request: IJwtRequest, response: Response) => {
-        const theQuery = `
-            UPDATE Books SET 
-                rating_avg = $1, 
-                rating_count = $2,
-                rating_1_star = $3,
-                rating_2_star = $4,
-                rating_3_star = $5,
-                rating_4_star = $6,
-                rating_5_star = $7
-            WHERE isbn13 = $8
-            RETURNING *`;
-        const values = [
-            request.body.ratings.average,
-            request.body.ratings.count,
-            request.body.ratings.rating1,
-            request.body.ratings.rating2,
-            request.body.ratings.rating3,
-            request.body.ratings.rating4,
-            request.body.ratings.rating5,
-            request.params.isbn,
-        ];
+        const values = [min, max, ...keyset.values];
 
         pool.query(theQuery, values)
             .then((result) => {
-                if (result.rowCount == 1) {
-                    response.status(201).send({
-                        result: toBook(result.rows[0]),
-                    });
-                } else {
-                    response.status(404).send({
-                        message: 'No book with given ISBN',
-                    });
-                }
+                response.send(keyset.toBody(result.rows));
             })
-            .catch((error) => {
-                if (
-                    error.detail != undefined &&
-                    (error.detail as string).endsWith('already exists.')
-                ) {
-                    console.error('Name exists');
-                    response.status(400).send({
-                        message: 'Name exists',
-                    });
-                } else {
-                    console.error('DB Query error on GET');
-                    console.error(error);
-                    response.status(500).send({
-                        message: 'server error - contact support',
-                    });
-                }
-            });
+            .catch((error) => next(error));
     }
 );
 
+const nameParams = {
+    name: {
+        type: 'string',
+        message: 'No query parameter in url',
+    },
+} satisfies ISchema;
+
+const nameSchema = { params: nameParams } satisfies IRequestSchemas;
+
+const keysetNameSchema = {
+    params: nameParams,
+    query: keysetFields,
+    refine: ({ query }) =>
+        cursorViolations('query', query.cursor, 'isbn13', 'ASC'),
+} satisfies IRequestSchemas;
+
 /**
  * @api {get} /books/title/:name Request books by title
  * @apiName GetBooksByTitle
@@ -851,6 +1219,8 @@ booksRouter.put(
  *
  * @apiParam {string} name A keyword to query all book titles.
  *
+ * @apiUse KeysetQuery
+ *
  * @apiSuccess {Object[]} results An aggregate of all books that match the query.
  * @apiSuccess {number} results.isbn13 The ISBN number for the book.
  * @apiSuccess {string} results.author A comma-separated string of authors who have
@@ -878,22 +1248,23 @@ booksRouter.put(
  * @apiSuccess {string} results.icons.small The url whose destination matches the
  * image for this book. On average, image sizes fall within about <code>50x75</code>
  *
+ * @apiUse KeysetPagination
+ *
+ * @apiUse ErrorEnvelope
  * @apiError (404: No book with given title) {String} message "No book with given title"
  * @apiError (400: Empty query parameter) {String} message "No query parameter in url"
+ * @apiUse ValidationErrors
  */
 booksRouter.get(
     '/title/:name',
-    (request: Request, response: Response, next: NextFunction) => {
-        if (!validationFunctions.isStringProvided(request.params.name)) {
-            response.status(400).send({
-                message: 'No query parameter in url',
-            });
-        } else {
-            next();
-        }
-    },
-    (request: IJwtRequest, response: Response) => {
-    const theQuery = `SELECT 
+    validate(keysetNameSchema),
+    (
+        request: IValidRequest<typeof keysetNameSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const keyset = keysetOptions(request.valid.query, 'isbn13', 'ASC', 2);
+        const theQuery = `SELECT 
     b.isbn13,
     b.title,                         
     b.original_title,                
@@ -915,42 +1286,35 @@ JOIN
 JOIN 
     Author a ON ba.Author_id = a.Author_id
 WHERE
-    title = $1 
+    title = $1 ${keyset.condition ? 'AND ' + keyset.condition : ''}
 GROUP BY 
     b.isbn13, b.title, b.original_title, b.publication_year, 
     b.rating_avg, b.rating_count, b.rating_1_star, b.rating_2_star,
     b.rating_3_star, b.rating_4_star, b.rating_5_star, b.image_url, b.image_small_url
-;` 
-
-    const values = [request.params.name];
+${keyset.suffix};`;
 
-    pool.query(theQuery, values)
-        .then((result) => {
-            if (result.rowCount >= 1) {
-                response.send({
-                    results: result.rows.map((b) => toBook(b))
-                });
+        const values = [request.valid.params.name, ...keyset.values];
 
-            } else {
-                response.status(404).send({
-                    message: 'No book with given title',
-                });
-            }
-        })
-        .catch((error) => {
-            //log the error
-            console.error('DB Query error on GET /title/:name');
-            console.error(error);
-            response.status(500).send({
-                message: 'server error - contact support',
-            });
-        });
-});
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (
+                    result.rowCount >= 1 ||
+                    request.valid.query.cursor !== undefined
+                ) {
+                    response.send(keyset.toBody(result.rows));
+                } else {
+                    next(new NotFoundError('No book with given title'));
+                }
+            })
+            .catch((error) => next(error));
+    }
+);
 
 /**
  * @api {delete} /books/title/:name Delete books by title
  * @apiName DeleteBooksByTitle
  * @apiGroup Books
+ * @apiPermission admin
  * @apiDescription Delete all books that contain a specified string in its title.
  *
  * @apiParam {string} name A keyword to query all book titles.
@@ -983,22 +1347,22 @@ GROUP BY
  * @apiSuccess {string} results.icons.small The url whose destination matches the
  * image for this book. On average, image sizes fall within about <code>50x75</code>
  *
+ * @apiUse ErrorEnvelope
  * @apiError (404: No book with given title) {String} message "No book with given title"
  * @apiError (400: Empty query parameter) {String} message "No query parameter in url"
+ * @apiUse ValidationErrors
+ * @apiUse InsufficientRole
  */
 booksRouter.delete(
     '/title/:name',
-    (request: Request, response: Response, next: NextFunction) => {
-        if (!validationFunctions.isStringProvided(request.params.name)) {
-            response.status(400).send({
-                message: 'No query parameter in url',
-            });
-        } else {
-            next();
-        }
-    },
-    (request: IJwtRequest, response: Response) => {
-    const theQuery = `WITH delete_book AS (
+    checkRole(Role.Admin),
+    validate(nameSchema),
+    (
+        request: IValidRequest<typeof nameSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery = `WITH delete_book AS (
     SELECT
     b.isbn13,
     b.title,                         
@@ -1027,30 +1391,21 @@ GROUP BY
     b.rating_avg, b.rating_count, b.rating_1_star, b.rating_2_star,
     b.rating_3_star, b.rating_4_star, b.rating_5_star, b.image_url, b.image_small_url
 )
-DELETE FROM Books WHERE title = $1 RETURNING *, (SELECT authors FROM delete_book)` 
-        const values = [request.params.name];
+DELETE FROM Books WHERE title = $1 RETURNING *, (SELECT authors FROM delete_book)`;
+        const values = [request.valid.params.name];
         console.log(values);
 
         pool.query(theQuery, values)
             .then((result) => {
                 if (result.rowCount >= 1) {
                     response.send({
-                        results: result.rows.map((b) => toBook(b))
+                        results: result.rows.map((b) => toBook(b)),
                     });
                 } else {
-                    response.status(404).send({
-                        message: 'title not found',
-                    });
+                    next(new NotFoundError('title not found'));
                 }
             })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on DELETE /title/:name');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
-            });
+            .catch((error) => next(error));
     }
 );
 
@@ -1065,6 +1420,8 @@ DELETE FROM Books WHERE title = $1 RETURNING *, (SELECT authors FROM delete_book
  * queried exactly in the form of <code> Firstname Lastname </code>. While not case-sensitive,
  * only exact matches for first and last are returned.
  *
+ * @apiUse KeysetQuery
+ *
  * @apiSuccess {Object[]} results An aggregate of all books that match the query.
  * @apiSuccess {number} results.isbn13 The ISBN number for the book.
  * @apiSuccess {string} results.author A comma-separated string of authors who have
@@ -1092,21 +1449,22 @@ DELETE FROM Books WHERE title = $1 RETURNING *, (SELECT authors FROM delete_book
  * @apiSuccess {string} results.icons.small The url whose destination matches the
  * image for this book. On average, image sizes fall within about <code>50x75</code>
  *
+ * @apiUse KeysetPagination
+ *
+ * @apiUse ErrorEnvelope
  * @apiError (404: No book with given title) {String} message "No book with given author"
  * @apiError (400: Empty query parameter) {String} message "No query parameter in url"
+ * @apiUse ValidationErrors
  */
 booksRouter.get(
-    '/author/:name', 
-    (request: Request, response: Response, next: NextFunction) => {
-        if (!validationFunctions.isStringProvided(request.params.name)) {
-            response.status(400).send({
-                message: 'No query parameter in url',
-            });
-        } else {
-            next();
-        }
-    },
-    (request: IJwtRequest, response: Response) => {
+    '/author/:name',
+    validate(keysetNameSchema),
+    (
+        request: IValidRequest<typeof keysetNameSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const keyset = keysetOptions(request.valid.query, 'isbn13', 'ASC', 2);
         const theQuery = `SELECT 
     b.isbn13,
     b.title,                         
@@ -1129,40 +1487,34 @@ JOIN
 JOIN 
     Author a ON ba.Author_id = a.Author_id
 WHERE
-    a.Author_name = $1 
+    a.Author_name = $1 ${keyset.condition ? 'AND ' + keyset.condition : ''}
 GROUP BY 
     b.isbn13, b.title, b.original_title, b.publication_year, 
     b.rating_avg, b.rating_count, b.rating_1_star, b.rating_2_star,
     b.rating_3_star, b.rating_4_star, b.rating_5_star, b.image_url, b.image_small_url
-; `;
-        const values = [request.params.name];
+${keyset.suffix}; `;
+        const values = [request.valid.params.name, ...keyset.values];
 
         pool.query(theQuery, values)
             .then((result) => {
-                if (result.rowCount >= 1) {
-                    response.send({
-                        results: result.rows.map((b) => toBook(b))
-                    });
+                if (
+                    result.rowCount >= 1 ||
+                    request.valid.query.cursor !== undefined
+                ) {
+                    response.send(keyset.toBody(result.rows));
                 } else {
-                    response.status(404).send({
-                        message: 'Author not found',
-                    });
+                    next(new NotFoundError('Author not found'));
                 }
             })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on GET /author/:name');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
-            });
-});
+            .catch((error) => next(error));
+    }
+);
 
 /**
  * @api {delete} /books/author/:name Delete books by author
  * @apiName DeleteBooksByAuthor
  * @apiGroup Books
+ * @apiPermission admin
  * @apiDescription Delete all books that a specified author contributed to.
  *
  * @apiParam {string} name An author's name to query the database. The database is
@@ -1196,22 +1548,22 @@ GROUP BY
  * @apiSuccess {string} results.icons.small The url whose destination matches the
  * image for this book. On average, image sizes fall within about <code>50x75</code>
  *
+ * @apiUse ErrorEnvelope
  * @apiError (404: No book with given title) {String} message "No book with given author"
  * @apiError (400: Empty query parameter) {String} message "No query parameter in url"
+ * @apiUse ValidationErrors
+ * @apiUse InsufficientRole
  */
 booksRouter.delete(
     '/author/:name',
-    (request: Request, response: Response, next: NextFunction) => {
-        if (!validationFunctions.isStringProvided(request.params.name)) {
-            response.status(400).send({
-                message: 'No query parameter in url',
-            });
-        } else {
-            next();
-        }
-    },
-    (request: IJwtRequest, response: Response) => {
-    const theQuery = `WITH delete_book AS (
+    checkRole(Role.Admin),
+    validate(nameSchema),
+    (
+        request: IValidRequest<typeof nameSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery = `WITH delete_book AS (
                         SELECT
                             b.isbn13,
                             string_agg(TRIM(a.Author_Name), ', ') AS authors
@@ -1235,46 +1587,312 @@ booksRouter.delete(
                     DELETE FROM Books 
                     WHERE isbn13 IN (SELECT isbn13 FROM delete_book) 
                     RETURNING *,
-                        (SELECT authors FROM delete_book WHERE delete_book.isbn13 = Books.isbn13);`
-        const values = [request.params.name];
+                        (SELECT authors FROM delete_book WHERE delete_book.isbn13 = Books.isbn13);`;
+        const values = [request.valid.params.name];
 
         pool.query(theQuery, values)
             .then((result) => {
                 console.dir(result.rows);
                 if (result.rowCount >= 1) {
                     response.send({
-                        results: result.rows.map((b) => toBook(b))
+                        results: result.rows.map((b) => toBook(b)),
                     });
                 } else {
-                    response.status(404).send({
-                        message: 'Authors not found',
-                    });
+                    next(new NotFoundError('Authors not found'));
                 }
             })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on DELETE /author/:name');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
+            .catch((error) => next(error));
+    }
+);
+
+// Maps the allowed values of the sort query parameter on /books/search to a column
+const searchSortColumns = {
+    title: 'b.title',
+    publication: 'b.publication_year',
+    rating: 'b.rating_avg',
+    rating_count: 'b.rating_count',
+    isbn13: 'b.isbn13',
+};
+
+const numericFilter = (name: string) =>
+    ({
+        type: 'number',
+        optional: true,
+        message: 'Invalid ' + name + ' - please refer to documentation',
+    }) as const;
+
+const searchSchema = {
+    query: {
+        title: {
+            type: 'string',
+            optional: true,
+            message: 'Invalid title - please refer to documentation',
+        },
+        author: {
+            type: 'string',
+            optional: true,
+            message: 'Invalid author - please refer to documentation',
+        },
+        yearMin: numericFilter('yearMin'),
+        yearMax: numericFilter('yearMax'),
+        ratingMin: numericFilter('ratingMin'),
+        ratingMax: numericFilter('ratingMax'),
+        minRatingCount: numericFilter('minRatingCount'),
+        sort: {
+            type: 'string',
+            oneOf: Object.keys(searchSortColumns),
+            optional: true,
+            default: 'title',
+            message:
+                'Sort field must be one of set options - please refer to documentation',
+        },
+        order: {
+            type: 'string',
+            oneOf: ['asc', 'desc'],
+            optional: true,
+            default: 'asc',
+            message:
+                'Ordering field must be one of set options - please refer to documentation',
+        },
+        ...offsetFields,
+    },
+} satisfies IRequestSchemas;
+
+/**
+ * @api {get} /books/search Request books matching several criteria
+ * @apiName SearchBooks
+ * @apiGroup Books
+ * @apiDescription Retrieve all books matching every provided filter. All filters are
+ * optional; when none are provided every book is returned, one page at a time.
+ *
+ * @apiQuery {string} [title] A case-insensitive substring of the title or original title.
+ * <code>%</code> and <code>_</code> match themselves, not any text.
+ * @apiQuery {string} [author] A case-insensitive substring of the name of any author of the book.
+ * <code>%</code> and <code>_</code> match themselves, not any text.
+ * @apiQuery {number} [yearMin] The earliest publication year, inclusive.
+ * @apiQuery {number} [yearMax] The latest publication year, inclusive.
+ * @apiQuery {number} [ratingMin] The lowest average rating, inclusive.
+ * @apiQuery {number} [ratingMax] The highest average rating, inclusive.
+ * @apiQuery {number} [minRatingCount] The lowest number of ratings a book may have.
+ * @apiQuery {string} [sort=title] The field to sort by. One of <code>title</code>,
+ * <code>publication</code>, <code>rating</code>, <code>rating_count</code> or <code>isbn13</code>.
+ * @apiQuery {string} [order=asc] The direction of the sort, either <code>asc</code> or <code>desc</code>.
+ * @apiQuery {number} [limit=16] The number of books to return, at least 1.
+ * @apiQuery {number} [offset=0] The number of books to skip.
+ *
+ * @apiSuccess {Object[]} results An aggregate of all books that match the query, in the
+ * same form as returned by <code>GET /books/isbns/:isbn</code>.
+ * @apiSuccess {Object} pagination metadata results from this paginated query
+ * @apiSuccess {number} pagination.limit the number of entry objects returned.
+ * @apiSuccess {number} pagination.offset the number used to offset the lookup of entry objects.
+ * @apiSuccess {number} pagination.nextPage the offset that should be used on a preceding call to this route.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiError (400: Invalid filter) {String} message "Invalid <code>filter</code> - please refer to documentation"
+ * @apiError (400: Invalid sort) {String} message "Sort field must be one of set options - please refer to documentation"
+ * @apiError (400: Invalid order) {String} message "Ordering field must be one of set options - please refer to documentation"
+ * @apiError (400: Invalid limit) {String} message "Invalid limit - please refer to documentation"
+ * @apiError (400: Invalid offset) {String} message "Invalid offset - please refer to documentation"
+ * @apiUse ValidationErrors
+ */
+booksRouter.get(
+    '/search',
+    validate(searchSchema),
+    (
+        request: IValidRequest<typeof searchSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const query = request.valid.query;
+        const conditions: string[] = [];
+        const values = [];
+        const addCondition = (condition: string, value) => {
+            values.push(value);
+            conditions.push(condition.split('?').join('$' + values.length));
+        };
+        // a pattern matching the text anywhere, with the wildcards in it matched as is
+        const containing = (text: string) =>
+            '%' + text.replace(/[\\%_]/g, '\\$&') + '%';
+
+        if (query.title !== undefined) {
+            addCondition(
+                "(b.title ILIKE ? ESCAPE '\\' OR b.original_title ILIKE ? ESCAPE '\\')",
+                containing(query.title)
+            );
+        }
+        if (query.author !== undefined) {
+            addCondition(
+                `EXISTS (SELECT 1 FROM Books_Authors ba2
+                    JOIN Author a2 ON ba2.Author_id = a2.Author_id
+                    WHERE ba2.isbn13 = b.isbn13 AND a2.Author_name ILIKE ? ESCAPE '\\')`,
+                containing(query.author)
+            );
+        }
+        if (query.yearMin !== undefined)
+            addCondition('b.publication_year >= ?', query.yearMin);
+        if (query.yearMax !== undefined)
+            addCondition('b.publication_year <= ?', query.yearMax);
+        if (query.ratingMin !== undefined)
+            addCondition('b.rating_avg >= ?', query.ratingMin);
+        if (query.ratingMax !== undefined)
+            addCondition('b.rating_avg <= ?', query.ratingMax);
+        if (query.minRatingCount !== undefined)
+            addCondition('b.rating_count >= ?', query.minRatingCount);
+
+        const sortColumn = searchSortColumns[query.sort];
+        const direction = query.order == 'desc' ? 'DESC' : 'ASC';
+        const { limit, offset } = query;
+
+        const theQuery = `SELECT
+    b.isbn13, b.title, b.original_title, b.publication_year, b.rating_avg, b.rating_count,
+    b.rating_1_star, b.rating_2_star, b.rating_3_star, b.rating_4_star, b.rating_5_star,
+    b.image_url, b.image_small_url,
+    string_agg(a.Author_name, ', ' ORDER BY a.Author_name) AS authors
+FROM
+    Books b
+JOIN
+    Books_Authors ba ON b.isbn13 = ba.isbn13
+JOIN
+    Author a ON ba.Author_id = a.Author_id
+${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+GROUP BY
+    b.id
+ORDER BY ${sortColumn} ${direction}, b.isbn13 ${direction}
+LIMIT $${values.length + 1}
+OFFSET $${values.length + 2};`;
+
+        pool.query(theQuery, [...values, limit, offset])
+            .then((result) => {
+                response.send({
+                    results: result.rows.map((b) => toBook(b)),
+                    pagination: {
+                        limit,
+                        offset,
+                        nextPage: limit + offset,
+                    },
                 });
-            });
+            })
+            .catch((error) => next(error));
+    }
+);
+
+const textSearchSchema = {
+    query: {
+        q: {
+            type: 'string',
+            message: 'Missing search query - please refer to documentation',
+        },
+        ...offsetFields,
+    },
+} satisfies IRequestSchemas;
+
+/**
+ * @api {get} /books/search/text Request books by free-text search
+ * @apiName FullTextSearchBooks
+ * @apiGroup Books
+ * @apiDescription Retrieve all books whose title, original title or author names match a
+ * free-text query, ordered from most to least relevant. The query supports the web search
+ * syntax: quoted phrases, <code>or</code> and <code>-</code> to exclude a word. Matches in
+ * the title weigh more than matches in the original title, which weigh more than matches
+ * in author names.
+ *
+ * @apiQuery {string} q The free-text query, e.g. <code>hunger games</code>.
+ * @apiQuery {number} [limit=16] The number of books to return, at least 1.
+ * @apiQuery {number} [offset=0] The number of books to skip.
+ *
+ * @apiSuccess {Object[]} results An aggregate of all matching books, most relevant first.
+ * @apiSuccess {Object} results.book The matching book, in the same form as returned by
+ * <code>GET /books/isbns/:isbn</code>.
+ * @apiSuccess {number} results.rank The relevance of the book to the query. Higher is more relevant.
+ * @apiSuccess {Object} results.highlights Copies of the searched fields with every matched
+ * word wrapped in <code>&lt;b&gt;</code> tags.
+ * @apiSuccess {string} results.highlights.title The highlighted title.
+ * @apiSuccess {string} results.highlights.original_title The highlighted original title.
+ * @apiSuccess {string} results.highlights.authors The highlighted comma-separated authors.
+ * @apiSuccess {Object} pagination metadata results from this paginated query
+ * @apiSuccess {number} pagination.limit the number of entry objects returned.
+ * @apiSuccess {number} pagination.offset the number used to offset the lookup of entry objects.
+ * @apiSuccess {number} pagination.nextPage the offset that should be used on a preceding call to this route.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiError (400: Missing query) {String} message "Missing search query - please refer to documentation"
+ * @apiError (400: Invalid limit) {String} message "Invalid limit - please refer to documentation"
+ * @apiError (400: Invalid offset) {String} message "Invalid offset - please refer to documentation"
+ * @apiUse ValidationErrors
+ */
+booksRouter.get(
+    '/search/text',
+    validate(textSearchSchema),
+    (
+        request: IValidRequest<typeof textSearchSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const { q, limit, offset } = request.valid.query;
+
+        const theQuery = `WITH q AS (
+    SELECT websearch_to_tsquery('english', $1) AS query
+)
+SELECT
+    b.isbn13, b.title, b.original_title, b.publication_year, b.rating_avg, b.rating_count,
+    b.rating_1_star, b.rating_2_star, b.rating_3_star, b.rating_4_star, b.rating_5_star,
+    b.image_url, b.image_small_url,
+    string_agg(a.Author_name, ', ' ORDER BY a.Author_name) AS authors,
+    ts_rank(b.search_vector, q.query) AS rank,
+    ts_headline('english', b.title, q.query, 'HighlightAll=true') AS title_highlight,
+    ts_headline('english', b.original_title, q.query, 'HighlightAll=true') AS original_title_highlight,
+    ts_headline('english', string_agg(a.Author_name, ', ' ORDER BY a.Author_name), q.query, 'HighlightAll=true') AS authors_highlight
+FROM
+    Books b
+CROSS JOIN
+    q
+JOIN
+    Books_Authors ba ON b.isbn13 = ba.isbn13
+JOIN
+    Author a ON ba.Author_id = a.Author_id
+WHERE
+    b.search_vector @@ q.query
+GROUP BY
+    b.id, q.query
+ORDER BY rank DESC, b.isbn13
+LIMIT $2
+OFFSET $3;`;
+
+        pool.query(theQuery, [q, limit, offset])
+            .then((result) => {
+                response.send({
+                    results: result.rows.map((row) => ({
+                        book: toBook(row),
+                        rank: row.rank,
+                        highlights: {
+                            title: row.title_highlight,
+                            original_title: row.original_title_highlight,
+                            authors: row.authors_highlight,
+                        },
+                    })),
+                    pagination: {
+                        limit,
+                        offset,
+                        nextPage: limit + offset,
+                    },
+                });
+            })
+            .catch((error) => next(error));
     }
 );
 
+const offsetSchema = { body: offsetFields } satisfies IRequestSchemas;
+
 /**
  * @api {POST} /books/pagination/offset Request to retrieve entries by offset pagination
  * @apiName OffsetPagination
  * @apiGroup Books
  * @apiDescription Request to retrieve the entries paginated using an entry limit and offset.
  *
- * @apiBody {number} limit the number of entry objects to return. Note, if a value less than
- * 0 is provided or a non-numeric value is provided or no value is provided, the default limit
- * amount of 16 will be used.
+ * @apiBody {number} [limit=16] the number of entry objects to return. Must be at least 1.
  *
- * @apiBody {number} offset the number to offset the lookup of entry objects to return. Note,
- * if a value less than 0 is provided or a non-numeric value is provided or no value is provided,
- * the default offset of 0 will be used.
+ * @apiBody {number} [offset=0] the number to offset the lookup of entry objects to return.
+ * Must not be negative.
  *
  * @apiSuccess {Object[]} results An aggregate of all books that match the query.
  * @apiSuccess {number} results.isbn13 The ISBN number for the book.
@@ -1308,9 +1926,17 @@ booksRouter.delete(
  * @apiSuccess {number} pagination.limit the number of entry objects to returned.
  * @apiSuccess {number} pagination.offset the number used to offset the lookup of entry objects.
  * @apiSuccess {number} pagination.nextPage the offset that should be used on a preceding call to this route.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiError (400: Invalid limit) {String} message "Invalid limit - please refer to documentation"
+ * @apiError (400: Invalid offset) {String} message "Invalid offset - please refer to documentation"
+ * @apiUse ValidationErrors
  */
-booksRouter.post('/pagination/offset', async (request: Request, response: Response) => {
-    const theQuery = `
+booksRouter.post(
+    '/pagination/offset',
+    validate(offsetSchema),
+    async (request: IValidRequest<typeof offsetSchema>, response: Response) => {
+        const theQuery = `
     SELECT 
         b.isbn13, b.title,b.original_title, b.publication_year, b.rating_avg, b.rating_count,               
     b.rating_1_star, b.rating_2_star, b.rating_3_star, b.rating_4_star, b.rating_5_star,              
@@ -1328,46 +1954,433 @@ GROUP BY
     b.rating_3_star, b.rating_4_star, b.rating_5_star, b.image_url, b.image_small_url
 LIMIT $1
 OFFSET $2;`;
-    /*
-     * NOTE: Using OFFSET in the query can lead to poor performance on large datasets as
-     * the DBMS has to scan all of the results up to the offset to "get" to it.
-     * The performance hit is roughly linear [O(n)] in performance. So, if the offset is
-     * close to the end of the data set and the dataset has 1000 entries and this query takes
-     * 1ms, a dataset with 100,000 entries will take 100ms and 1,000,000 will take 1,000ms or 1s!
-     * The times used above are solely used as examples.
-     */
-
-    // NOTE: +request.body.limit the + tells TS to treat this string as a number
-    const limit: number =
-        validationFunctions.isNumberProvided(request.body.limit) && +request.body.limit > 0
-            ? +request.body.limit
-            : 16;
-    const offset: number =
-        validationFunctions.isNumberProvided(request.body.offset) && +request.body.offset >= 0
-            ? +request.body.offset
-            : 0;
-
-    const values = [limit, offset];
-
-    // demonstrating deconstructing the returned object. const { rows }
-    const { rows } = await pool.query(theQuery, values);
-
-    // This query is SLOW on large datasets! - Beware!
-    const result = await pool.query(
-        'SELECT count(*) AS exact_count FROM Books;'
-    );
-    const count = parseInt(result.rows[0].exact_count);
-    
-    response.send({
-        results: rows.map((b) => toBook(b)),
-        pagination: {
-            totalRecords: count,
-            limit,
-            offset,
-            nextPage: limit + offset,
+        /*
+         * NOTE: Using OFFSET in the query can lead to poor performance on large datasets as
+         * the DBMS has to scan all of the results up to the offset to "get" to it.
+         * The performance hit is roughly linear [O(n)] in performance. So, if the offset is
+         * close to the end of the data set and the dataset has 1000 entries and this query takes
+         * 1ms, a dataset with 100,000 entries will take 100ms and 1,000,000 will take 1,000ms or 1s!
+         * The times used above are solely used as examples.
+         */
+
+        const { limit, offset } = request.valid.body;
+
+        const values = [limit, offset];
+
+        // demonstrating deconstructing the returned object. const { rows }
+        const { rows } = await pool.query(theQuery, values);
+
+        // This query is SLOW on large datasets! - Beware!
+        const result = await pool.query(
+            'SELECT count(*) AS exact_count FROM Books;'
+        );
+        const count = parseInt(result.rows[0].exact_count);
+
+        response.send({
+            results: rows.map((b) => toBook(b)),
+            pagination: {
+                totalRecords: count,
+                limit,
+                offset,
+                nextPage: limit + offset,
+            },
+        });
+    }
+);
+
+/**
+ * @apiDefine KeysetQuery
+ * @apiQuery {number} [limit] The number of books to return per page. When either
+ * <code>limit</code> or <code>cursor</code> is provided the results are paginated by
+ * ISBN; otherwise every matching book is returned at once.
+ * @apiQuery {string} [cursor] The <code>nextCursor</code> or <code>prevCursor</code>
+ * returned by a previous call.
+ * @apiError (400: Invalid limit) {String} message "Invalid limit - please refer to documentation"
+ * @apiError (400: Invalid cursor) {String} message "Invalid cursor - please refer to documentation"
+ */
+
+/**
+ * @apiDefine KeysetPagination
+ * @apiSuccess {Object} [pagination] metadata for the page, only present when the results are paginated
+ * @apiSuccess {number} pagination.limit the number of entry objects requested per page.
+ * @apiSuccess {string} pagination.nextCursor the cursor to request the following page with, or
+ * <code>null</code> on the last page.
+ * @apiSuccess {string} pagination.prevCursor the cursor to request the preceding page with, or
+ * <code>null</code> on the first page.
+ */
+
+const cursorSchema = {
+    query: {
+        sort: {
+            type: 'string',
+            oneOf: ['isbn13', 'rating'],
+            optional: true,
+            default: 'isbn13',
+            message:
+                'Sort field must be one of set options - please refer to documentation',
         },
-    });
-});
+        order: {
+            type: 'string',
+            oneOf: ['asc', 'desc'],
+            optional: true,
+            default: 'asc',
+            message:
+                'Ordering field must be one of set options - please refer to documentation',
+        },
+        ...keysetFields,
+        estimate: {
+            type: 'boolean',
+            optional: true,
+            default: false,
+            message: 'Invalid estimate - please refer to documentation',
+        },
+    },
+    refine: ({ query }) =>
+        cursorViolations(
+            'query',
+            query.cursor,
+            query.sort,
+            query.order == 'desc' ? 'DESC' : 'ASC'
+        ),
+} satisfies IRequestSchemas;
+
+/**
+ * @api {get} /books/pagination/cursor Request to retrieve entries by cursor pagination
+ * @apiName CursorPagination
+ * @apiGroup Books
+ * @apiDescription Request to retrieve the entries one page at a time, continuing from
+ * the cursor returned with the previous page. Unlike offset pagination, the cost of a
+ * page does not grow the further into the catalog it is, and pages do not skip or repeat
+ * entries when books are added or removed between calls.
+ *
+ * @apiQuery {string} [sort=isbn13] The key to page by, either <code>isbn13</code> or
+ * <code>rating</code>. Books with equal ratings are ordered by ISBN.
+ * @apiQuery {string} [order=asc] The direction of the sort, either <code>asc</code> or <code>desc</code>.
+ * @apiQuery {number} [limit=16] The number of entry objects to return per page.
+ * @apiQuery {string} [cursor] The <code>nextCursor</code> or <code>prevCursor</code>
+ * returned by a previous call with the same <code>sort</code> and <code>order</code>.
+ * Omit to request the first page.
+ * @apiQuery {boolean} [estimate=false] When <code>true</code>, include an estimate of the total
+ * number of books taken from the database statistics rather than an exact count.
+ *
+ * @apiSuccess {Object[]} results The page of books, in the same form as returned by
+ * <code>GET /books/isbns/:isbn</code>.
+ * @apiUse KeysetPagination
+ * @apiSuccess {number} pagination.estimatedTotal the estimated total number of books. Only
+ * present when <code>estimate</code> is <code>true</code>, and <code>null</code> when the
+ * database has not gathered statistics yet.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiError (400: Invalid sort) {String} message "Sort field must be one of set options - please refer to documentation"
+ * @apiError (400: Invalid order) {String} message "Ordering field must be one of set options - please refer to documentation"
+ * @apiError (400: Invalid limit) {String} message "Invalid limit - please refer to documentation"
+ * @apiError (400: Invalid cursor) {String} message "Invalid cursor - please refer to documentation"
+ * @apiError (400: Invalid estimate) {String} message "Invalid estimate - please refer to documentation"
+ * @apiUse ValidationErrors
+ */
+booksRouter.get(
+    '/pagination/cursor',
+    validate(cursorSchema),
+    async (
+        request: IValidRequest<typeof cursorSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const query = request.valid.query;
+        const sort = query.sort as CursorSort;
+        const order = query.order == 'desc' ? 'DESC' : 'ASC';
+        // the first page is requested without a limit or cursor, so force pagination on
+        const keyset = keysetOptions({ limit: 16, ...query }, sort, order, 1);
+
+        const theQuery = `SELECT
+    b.isbn13, b.title, b.original_title, b.publication_year, b.rating_avg, b.rating_count,
+    b.rating_1_star, b.rating_2_star, b.rating_3_star, b.rating_4_star, b.rating_5_star,
+    b.image_url, b.image_small_url,
+    string_agg(a.Author_name, ', ' ORDER BY a.Author_name) AS authors
+FROM
+    Books b
+JOIN
+    Books_Authors ba ON b.isbn13 = ba.isbn13
+JOIN
+    Author a ON ba.Author_id = a.Author_id
+${keyset.condition ? 'WHERE ' + keyset.condition : ''}
+GROUP BY
+    b.id
+${keyset.suffix};`;
+
+        try {
+            const { rows } = await pool.query(theQuery, keyset.values);
+            const body = keyset.toBody(rows);
+
+            if (query.estimate) {
+                // reltuples is kept up to date by autovacuum/ANALYZE, so reading it is
+                // constant time, unlike count(*). It is -1 before the first ANALYZE.
+                const estimate = await pool.query(
+                    "SELECT reltuples::BIGINT AS estimate FROM pg_class WHERE oid = 'books'::regclass;"
+                );
+                const estimatedTotal = parseInt(estimate.rows[0].estimate);
+                body.pagination.estimatedTotal =
+                    estimatedTotal >= 0 ? estimatedTotal : null;
+            }
+
+            response.send(body);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// the number of rows fetched from the export cursor at a time
+const exportBatchSize = 500;
+
+/**
+ * Escapes text for use in XML content and attribute values.
+ *
+ * @param value the value to escape
+ */
+const escapeXml = (value): string =>
+    String(value ?? '')
+        .split('&')
+        .join('&amp;')
+        .split('<')
+        .join('&lt;')
+        .split('>')
+        .join('&gt;')
+        .split('"')
+        .join('&quot;');
+
+/*
+ * How each export format is written: the content type and file extension of the download,
+ * what comes before and after the books, and how each book row is written.
+ */
+const exportFormats = {
+    csv: {
+        contentType: 'text/csv',
+        extension: 'csv',
+        head: csvFunctions.formatCsvRow(csvColumns),
+        toText: (row): string => {
+            const book = toBook(row);
+            return csvFunctions.formatCsvRow([
+                row.id,
+                book.isbn13,
+                book.authors,
+                book.publication,
+                book.original_title,
+                book.title,
+                book.ratings.average,
+                book.ratings.count,
+                book.ratings.rating_1,
+                book.ratings.rating_2,
+                book.ratings.rating_3,
+                book.ratings.rating_4,
+                book.ratings.rating_5,
+                book.icons.large,
+                book.icons.small,
+            ]);
+        },
+        tail: '',
+    },
+    jsonl: {
+        contentType: 'application/x-ndjson',
+        extension: 'jsonl',
+        head: '',
+        toText: (row): string => JSON.stringify(toBook(row)) + '\n',
+        tail: '',
+    },
+    xml: {
+        contentType: 'application/xml',
+        extension: 'xml',
+        head: '<?xml version="1.0" encoding="UTF-8"?>\n<ONIXMessage release="lite">\n',
+        toText: (row): string => {
+            const book = toBook(row);
+            const ratings = book.ratings;
+            const authors = (book.authors ?? '')
+                .split(', ')
+                .filter((name) => name.length > 0)
+                .map(
+                    (name, i) =>
+                        `    <Contributor SequenceNumber="${i + 1}"><PersonName>${escapeXml(name)}</PersonName></Contributor>\n`
+                )
+                .join('');
+            return (
+                '  <Product>\n' +
+                `    <RecordReference>${book.isbn13}</RecordReference>\n` +
+                `    <ProductIdentifier><ProductIDType>15</ProductIDType><IDValue>${book.isbn13}</IDValue></ProductIdentifier>\n` +
+                `    <Title>${escapeXml(book.title)}</Title>\n` +
+                `    <OriginalTitle>${escapeXml(book.original_title)}</OriginalTitle>\n` +
+                authors +
+                `    <PublicationYear>${escapeXml(book.publication)}</PublicationYear>\n` +
+                `    <Ratings average="${escapeXml(ratings.average)}" count="${escapeXml(ratings.count)}"` +
+                ` one="${escapeXml(ratings.rating_1)}" two="${escapeXml(ratings.rating_2)}"` +
+                ` three="${escapeXml(ratings.rating_3)}" four="${escapeXml(ratings.rating_4)}"` +
+                ` five="${escapeXml(ratings.rating_5)}"/>\n` +
+                `    <Image size="large">${escapeXml(book.icons.large)}</Image>\n` +
+                `    <Image size="small">${escapeXml(book.icons.small)}</Image>\n` +
+                '  </Product>\n'
+            );
+        },
+        tail: '</ONIXMessage>\n',
+    },
+};
+
+const exportSchema = {
+    query: {
+        format: {
+            type: 'string',
+            oneOf: Object.keys(exportFormats),
+            message:
+                'Format must be one of set options - please refer to documentation',
+        },
+        title: {
+            type: 'string',
+            optional: true,
+            message: 'Invalid title - please refer to documentation',
+        },
+        author: {
+            type: 'string',
+            optional: true,
+            message: 'Invalid author - please refer to documentation',
+        },
+        ratingMin: numericFilter('ratingMin'),
+        ratingMax: numericFilter('ratingMax'),
+    },
+} satisfies IRequestSchemas;
+
+/**
+ * @api {get} /books/export Request an export of the catalog
+ * @apiName GetBooksExport
+ * @apiGroup Books
+ * @apiDescription Download every book, or the books matching the same filters as the
+ * title, author and rating routes, as a file ordered by ISBN. The export is streamed from
+ * the database a batch at a time, so it may be as large as the catalog.
+ *
+ * The <code>csv</code> format has the same header and columns as <code>books.csv</code>,
+ * and can be sent back to <code>POST /books/import</code>. The <code>jsonl</code> format
+ * has one book per line, in the same form as <code>result</code> of
+ * <code>GET /books/isbns/:isbn</code>. The <code>xml</code> format is a simple feed in the
+ * style of ONIX, with one <code>&lt;Product&gt;</code> per book.
+ *
+ * @apiQuery {string} format The format of the file. One of <code>csv</code>,
+ * <code>jsonl</code> or <code>xml</code>.
+ * @apiQuery {string} [title] Only export books with exactly this title.
+ * @apiQuery {string} [author] Only export books by an author with exactly this name.
+ * @apiQuery {number} [ratingMin] The lowest average rating, inclusive.
+ * @apiQuery {number} [ratingMax] The highest average rating, inclusive.
+ *
+ * @apiSuccess {File} file The exported books, as an attachment named
+ * <code>books.csv</code>, <code>books.jsonl</code> or <code>books.xml</code>.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiError (400: Invalid format) {String} message "Format must be one of set options - please refer to documentation"
+ * @apiError (400: Invalid filter) {String} message "Invalid <code>filter</code> - please refer to documentation"
+ * @apiUse ValidationErrors
+ */
+booksRouter.get(
+    '/export',
+    validate(exportSchema),
+    async (
+        request: IValidRequest<typeof exportSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const query = request.valid.query;
+        const format = exportFormats[query.format];
+        const conditions: string[] = [];
+        const values = [];
+        const addCondition = (condition: string, value) => {
+            values.push(value);
+            conditions.push(condition.split('?').join('$' + values.length));
+        };
+
+        if (query.title !== undefined) {
+            addCondition('b.title = ?', query.title);
+        }
+        if (query.author !== undefined) {
+            addCondition(
+                `EXISTS (SELECT 1 FROM Books_Authors ba2
+                    JOIN Author a2 ON ba2.Author_id = a2.Author_id
+                    WHERE ba2.isbn13 = b.isbn13 AND a2.Author_name = ?)`,
+                query.author
+            );
+        }
+        if (query.ratingMin !== undefined)
+            addCondition('b.rating_avg >= ?', query.ratingMin);
+        if (query.ratingMax !== undefined)
+            addCondition('b.rating_avg <= ?', query.ratingMax);
 
+        const theQuery = `SELECT
+    b.id, b.isbn13, b.title, b.original_title, b.publication_year, b.rating_avg, b.rating_count,
+    b.rating_1_star, b.rating_2_star, b.rating_3_star, b.rating_4_star, b.rating_5_star,
+    b.image_url, b.image_small_url,
+    string_agg(a.Author_name, ', ' ORDER BY a.Author_name) AS authors
+FROM
+    Books b
+LEFT JOIN
+    Books_Authors ba ON b.isbn13 = ba.isbn13
+LEFT JOIN
+    Author a ON ba.Author_id = a.Author_id
+${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+GROUP BY
+    b.id
+ORDER BY b.isbn13`;
+
+        // resolves once the response can take more, or the client has gone
+        const write = (text: string) =>
+            response.write(text) || response.destroyed
+                ? Promise.resolve()
+                : new Promise<void>((resolve) => {
+                      const done = () => {
+                          response.off('drain', done);
+                          response.off('close', done);
+                          resolve();
+                      };
+                      response.on('drain', done);
+                      response.on('close', done);
+                  });
+
+        let client: PoolClient;
+        try {
+            client = await pool.connect();
+            // a cursor only lives as long as its transaction
+            await client.query('BEGIN READ ONLY');
+            await client.query(
+                `DECLARE book_export NO SCROLL CURSOR FOR ${theQuery}`,
+                values
+            );
+
+            response.type(format.contentType);
+            response.attachment('books.' + format.extension);
+            await write(format.head);
+            let rows = [];
+            do {
+                rows = (
+                    await client.query(
+                        `FETCH ${exportBatchSize} FROM book_export`
+                    )
+                ).rows;
+                for (const row of rows) {
+                    await write(format.toText(row));
+                }
+            } while (rows.length == exportBatchSize && !response.destroyed);
+            response.end(format.tail);
+
+            await client.query('COMMIT');
+        } catch (error) {
+            await client?.query('ROLLBACK');
+            if (response.headersSent) {
+                // the client has part of the file, so cut it off rather than let it look complete
+                console.error(
+                    `[${response.locals.requestId}] Error on GET /export`
+                );
+                console.error(error);
+                response.destroy();
+            } else {
+                next(error);
+            }
+        } finally {
+            client?.release();
+        }
+    }
+);
 
 export { booksRouter };
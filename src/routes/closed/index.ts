@@ -1,12 +1,32 @@
 import express, { Router } from 'express';
 
-import { checkToken } from '../../core/middleware';
+import { checkToken, checkRole } from '../../core/middleware';
+import { Role } from '../../core/models';
 import { tokenTestRouter } from './tokenTest';
 import { booksRouter } from './books';
+import { ratingsRouter } from './ratings';
+import { reviewsRouter } from './reviews';
+import { shelvesRouter } from './shelves';
+import { adminRouter } from './admin';
+import { accountRouter } from './account';
+import { twoFactorRouter } from './twoFactor';
+import { authorsRouter } from './authors';
 
 const closedRoutes: Router = express.Router();
 
 closedRoutes.use('/jwt_test', checkToken, tokenTestRouter);
- closedRoutes.use('/books', checkToken, booksRouter);
+// checkToken queries the Account table, so it runs once for each prefix, however many
+// routers share it
+closedRoutes.use(
+    '/books',
+    checkToken,
+    booksRouter,
+    ratingsRouter,
+    reviewsRouter
+);
+closedRoutes.use('/shelves', checkToken, shelvesRouter);
+closedRoutes.use('/authors', checkToken, authorsRouter);
+closedRoutes.use('/admin', checkToken, checkRole(Role.Admin), adminRouter);
+closedRoutes.use('/account', checkToken, accountRouter, twoFactorRouter);
 
 export { closedRoutes };
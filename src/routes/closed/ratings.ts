@@ -0,0 +1,242 @@
+// express is the framework we're going to use to handle requests
+import express, { NextFunction, Response, Router } from 'express';
+import { PoolClient } from 'pg';
+import { validate } from '../../core/middleware';
+import {
+    IRequestSchemas,
+    IValidRequest,
+    NotFoundError,
+} from '../../core/models';
+import {
+    pool,
+    bookFunctions,
+    isbnFunctions,
+    ratingFunctions,
+} from '../../core/utilities';
+
+// retrieve the router object from express
+const ratingsRouter: Router = express.Router();
+
+const toBook = bookFunctions.toBook;
+const storedIsbn = bookFunctions.storedIsbn;
+const catalogIsbns = isbnFunctions.catalogIsbns;
+const applyVote = ratingFunctions.applyVote;
+
+const isbnSchema = {
+    params: bookFunctions.isbnParams,
+} satisfies IRequestSchemas;
+
+const ratingSchema = {
+    params: bookFunctions.isbnParams,
+    body: {
+        rating: {
+            type: 'integer',
+            min: 1,
+            max: 5,
+            message:
+                'Invalid or missing rating - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+/**
+ * @api {get} /books/isbns/:isbn/my-rating Request your rating of a book
+ * @apiName GetMyRating
+ * @apiGroup Ratings
+ * @apiDescription Retrieve the star rating the signed in account gave a book.
+ *
+ * @apiParam {string} isbn The ISBN of the book, in any form accepted by
+ * <code>GET /books/isbns/:isbn</code>.
+ *
+ * @apiSuccess {Object} rating Your rating of the book.
+ * @apiSuccess {number} rating.isbn13 The ISBN number for the book.
+ * @apiSuccess {number} rating.rating The number of stars, 1 to 5, you gave the book.
+ * @apiSuccess {Date} rating.created When you first rated the book.
+ * @apiSuccess {Date} rating.updated When you last changed your rating.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No rating) {String} message "You have not rated this book"
+ * @apiError (400: Invalid ISBN) {String} message "Invalid ISBN - please refer to documentation"
+ */
+ratingsRouter.get(
+    '/isbns/:isbn/my-rating',
+    validate(isbnSchema),
+    (
+        request: IValidRequest<typeof isbnSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery = `SELECT isbn13, rating, created_at, updated_at FROM Book_Ratings
+            WHERE account_id = $1 AND isbn13 = ${storedIsbn('$2')}`;
+        const values = [
+            request.claims.id,
+            catalogIsbns(request.valid.params.isbn),
+        ];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 1) {
+                    response.send({
+                        rating: {
+                            isbn13: Number(result.rows[0].isbn13),
+                            rating: result.rows[0].rating,
+                            created: result.rows[0].created_at,
+                            updated: result.rows[0].updated_at,
+                        },
+                    });
+                } else {
+                    next(new NotFoundError('You have not rated this book'));
+                }
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {post} /books/isbns/:isbn/my-rating Rate a book
+ * @apiName PostMyRating
+ * @apiGroup Ratings
+ * @apiDescription Give a book a star rating as the signed in account, or change the
+ * rating you gave it before. The aggregate ratings of the book are updated to match.
+ *
+ * @apiParam {string} isbn The ISBN of the book, in any form accepted by
+ * <code>GET /books/isbns/:isbn</code>.
+ *
+ * @apiBody {number} rating The number of stars to give the book, an integer from 1 to 5.
+ *
+ * @apiSuccess (201: Rating added) {number} rating The number of stars you gave the book.
+ * @apiSuccess (201: Rating added) {Object} ratings The updated aggregate ratings of the book,
+ * in the same form as <code>result.ratings</code> of <code>GET /books/isbns/:isbn</code>.
+ * @apiSuccess (200: Rating changed) {number} rating The number of stars you gave the book.
+ * @apiSuccess (200: Rating changed) {Object} ratings The updated aggregate ratings of the book.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No book with given ISBN) {String} message "No book with given ISBN"
+ * @apiError (400: Invalid rating) {String} message "Invalid or missing rating - please refer to documentation"
+ * @apiError (400: Invalid ISBN) {String} message "Invalid ISBN - please refer to documentation"
+ */
+ratingsRouter.post(
+    '/isbns/:isbn/my-rating',
+    validate(ratingSchema),
+    async (
+        request: IValidRequest<typeof ratingSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const rating = request.valid.body.rating;
+        let client: PoolClient;
+        try {
+            client = await pool.connect();
+            await client.query('BEGIN');
+
+            // lock the book so concurrent votes apply one after the other
+            const book = await client.query(
+                `SELECT isbn13 FROM Books WHERE isbn13 = ${storedIsbn('$1')} FOR UPDATE`,
+                [catalogIsbns(request.valid.params.isbn)]
+            );
+            if (book.rowCount == 0) {
+                await client.query('ROLLBACK');
+                next(new NotFoundError('No book with given ISBN'));
+                return;
+            }
+            const isbn: number = Number(book.rows[0].isbn13);
+
+            const previous = await client.query(
+                'SELECT rating FROM Book_Ratings WHERE account_id = $1 AND isbn13 = $2',
+                [request.claims.id, isbn]
+            );
+            const removed: number | null =
+                previous.rowCount == 1 ? previous.rows[0].rating : null;
+
+            await client.query(
+                `INSERT INTO Book_Ratings (account_id, isbn13, rating)
+                VALUES ($1, $2, $3)
+                ON CONFLICT (account_id, isbn13) DO UPDATE
+                SET rating = EXCLUDED.rating, updated_at = NOW()`,
+                [request.claims.id, isbn, rating]
+            );
+            const row = await applyVote(client, isbn, rating, removed);
+
+            await client.query('COMMIT');
+            response.status(removed == null ? 201 : 200).send({
+                rating,
+                ratings: toBook(row).ratings,
+            });
+        } catch (error) {
+            await client?.query('ROLLBACK');
+            next(error);
+        } finally {
+            client?.release();
+        }
+    }
+);
+
+/**
+ * @api {delete} /books/isbns/:isbn/my-rating Withdraw your rating of a book
+ * @apiName DeleteMyRating
+ * @apiGroup Ratings
+ * @apiDescription Remove the star rating the signed in account gave a book. The
+ * aggregate ratings of the book are updated to match.
+ *
+ * @apiParam {string} isbn The ISBN of the book, in any form accepted by
+ * <code>GET /books/isbns/:isbn</code>.
+ *
+ * @apiSuccess {number} rating The number of stars you had given the book.
+ * @apiSuccess {Object} ratings The updated aggregate ratings of the book, in the same form
+ * as <code>result.ratings</code> of <code>GET /books/isbns/:isbn</code>.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No rating) {String} message "You have not rated this book"
+ * @apiError (400: Invalid ISBN) {String} message "Invalid ISBN - please refer to documentation"
+ */
+ratingsRouter.delete(
+    '/isbns/:isbn/my-rating',
+    validate(isbnSchema),
+    async (
+        request: IValidRequest<typeof isbnSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        let client: PoolClient;
+        try {
+            client = await pool.connect();
+            await client.query('BEGIN');
+
+            const book = await client.query(
+                `SELECT isbn13 FROM Books WHERE isbn13 = ${storedIsbn('$1')} FOR UPDATE`,
+                [catalogIsbns(request.valid.params.isbn)]
+            );
+            // a book that does not exist has no ratings either
+            const isbn: number | null =
+                book.rowCount == 1 ? Number(book.rows[0].isbn13) : null;
+            const deleted = await client.query(
+                'DELETE FROM Book_Ratings WHERE account_id = $1 AND isbn13 = $2 RETURNING rating',
+                [request.claims.id, isbn]
+            );
+            if (deleted.rowCount == 0) {
+                await client.query('ROLLBACK');
+                next(new NotFoundError('You have not rated this book'));
+                return;
+            }
+
+            const removed: number = deleted.rows[0].rating;
+            const row = await applyVote(client, isbn, null, removed);
+
+            await client.query('COMMIT');
+            response.send({
+                rating: removed,
+                ratings: toBook(row).ratings,
+            });
+        } catch (error) {
+            await client?.query('ROLLBACK');
+            next(error);
+        } finally {
+            client?.release();
+        }
+    }
+);
+
+export { ratingsRouter };
@@ -0,0 +1,529 @@
+// express is the framework we're going to use to handle requests
+import express, { NextFunction, Response, Router } from 'express';
+import { checkRole, validate } from '../../core/middleware';
+import {
+    IRequestSchemas,
+    ISchema,
+    IValidRequest,
+    Role,
+    BadRequestError,
+    NotFoundError,
+} from '../../core/models';
+import { pool, bookFunctions, isbnFunctions } from '../../core/utilities';
+
+// retrieve the router object from express
+const reviewsRouter: Router = express.Router();
+
+const storedIsbn = bookFunctions.storedIsbn;
+const isbnParams = bookFunctions.isbnParams;
+const catalogIsbns = isbnFunctions.catalogIsbns;
+
+interface IReview {
+    id: number;
+    isbn13: number;
+    username: string;
+    text: string;
+    helpful: number;
+    hidden: boolean;
+    created: Date;
+    updated: Date;
+}
+
+function toReview(row): IReview {
+    return {
+        id: row.review_id,
+        isbn13: Number(row.isbn13),
+        username: row.username,
+        text: row.review_text,
+        helpful: parseInt(row.helpful),
+        hidden: row.hidden,
+        created: row.created_at,
+        updated: row.updated_at,
+    };
+}
+
+// Maps the allowed values of the sort query parameter to an ORDER BY clause
+const reviewSortOrders = {
+    newest: 'r.created_at DESC, r.review_id DESC',
+    helpful: 'helpful DESC, r.created_at DESC, r.review_id DESC',
+};
+
+// Selects the reviews in the CTE "changed" along with the reviewer and helpful count
+const selectChangedReview = `
+    SELECT c.*, acc.username,
+        (SELECT count(*) FROM Review_Helpful h WHERE h.review_id = c.review_id) AS helpful
+    FROM changed c
+    JOIN Account acc ON c.account_id = acc.account_id`;
+
+const isbnSchema = {
+    params: isbnParams,
+} satisfies IRequestSchemas;
+
+const reviewTextSchema = {
+    params: isbnParams,
+    body: {
+        text: {
+            type: 'string',
+            check: (text) => text.length <= 5000,
+            message:
+                'Invalid or missing review text - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+const getReviewsSchema = {
+    params: isbnParams,
+    query: {
+        sort: {
+            type: 'string',
+            oneOf: Object.keys(reviewSortOrders),
+            optional: true,
+            default: 'newest',
+            message:
+                'Sort field must be one of set options - please refer to documentation',
+        },
+        limit: {
+            type: 'integer',
+            min: 1,
+            optional: true,
+            default: 16,
+            message: 'Invalid limit - please refer to documentation',
+        },
+        offset: {
+            type: 'integer',
+            min: 0,
+            optional: true,
+            default: 0,
+            message: 'Invalid offset - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+const reviewIdParams = {
+    id: {
+        type: 'integer',
+        message:
+            'Query parameter not of required type - please refer to documentation',
+    },
+} satisfies ISchema;
+
+const reviewIdSchema = {
+    params: reviewIdParams,
+} satisfies IRequestSchemas;
+
+const moderationSchema = {
+    params: reviewIdParams,
+    body: {
+        hidden: {
+            type: 'boolean',
+            message:
+                'Invalid or missing hidden flag - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+/**
+ * @apiDefine ReviewResult
+ * @apiSuccess {Object} review The review.
+ * @apiSuccess {number} review.id The id of the review.
+ * @apiSuccess {number} review.isbn13 The ISBN number of the reviewed book.
+ * @apiSuccess {string} review.username The username of the account that wrote the review.
+ * @apiSuccess {string} review.text The text of the review.
+ * @apiSuccess {number} review.helpful The number of accounts that marked the review helpful.
+ * @apiSuccess {boolean} review.hidden Whether the review has been hidden by a moderator.
+ * @apiSuccess {Date} review.created When the review was written.
+ * @apiSuccess {Date} review.updated When the review was last edited.
+ */
+
+/**
+ * @api {post} /books/isbns/:isbn/reviews Write a review of a book
+ * @apiName PostReview
+ * @apiGroup Reviews
+ * @apiDescription Write a review of a book as the signed in account. Each account may
+ * write a single review per book; use <code>PUT /books/isbns/:isbn/my-review</code>
+ * to change it.
+ *
+ * @apiParam {string} isbn The ISBN of the book, in any form accepted by
+ * <code>GET /books/isbns/:isbn</code>.
+ *
+ * @apiBody {string} text The text of the review, at most 5000 characters.
+ *
+ * @apiUse ReviewResult
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No book with given ISBN) {String} message "No book with given ISBN"
+ * @apiError (400: Review exists) {String} message "Review exists"
+ * @apiError (400: Invalid text) {String} message "Invalid or missing review text - please refer to documentation"
+ * @apiError (400: Invalid ISBN) {String} message "Invalid ISBN - please refer to documentation"
+ */
+reviewsRouter.post(
+    '/isbns/:isbn/reviews',
+    validate(reviewTextSchema),
+    (
+        request: IValidRequest<typeof reviewTextSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery = `WITH changed AS (
+            INSERT INTO Reviews (account_id, isbn13, review_text)
+            VALUES ($1, ${storedIsbn('$2')}, $3)
+            RETURNING *
+        ) ${selectChangedReview}`;
+        const values = [
+            request.claims.id,
+            catalogIsbns(request.valid.params.isbn),
+            request.valid.body.text,
+        ];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                response.status(201).send({
+                    review: toReview(result.rows[0]),
+                });
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {get} /books/isbns/:isbn/reviews Request the reviews of a book
+ * @apiName GetReviews
+ * @apiGroup Reviews
+ * @apiDescription Retrieve the reviews of a book, one page at a time. Reviews hidden
+ * by a moderator are not included.
+ *
+ * @apiParam {string} isbn The ISBN of the book, in any form accepted by
+ * <code>GET /books/isbns/:isbn</code>.
+ *
+ * @apiQuery {string} [sort=newest] The order of the reviews, either <code>newest</code>
+ * or <code>helpful</code> (most helpful first).
+ * @apiQuery {number} [limit=16] The number of reviews to return, at least 1.
+ * @apiQuery {number} [offset=0] The number of reviews to skip.
+ *
+ * @apiSuccess {Object[]} reviews The page of reviews, each in the same form as <code>review</code>
+ * returned by <code>POST /books/isbns/:isbn/reviews</code>.
+ * @apiSuccess {Object} pagination metadata results from this paginated query
+ * @apiSuccess {number} pagination.limit the number of entry objects returned.
+ * @apiSuccess {number} pagination.offset the number used to offset the lookup of entry objects.
+ * @apiSuccess {number} pagination.nextPage the offset that should be used on a preceding call to this route.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (400: Invalid sort) {String} message "Sort field must be one of set options - please refer to documentation"
+ * @apiError (400: Invalid limit) {String} message "Invalid limit - please refer to documentation"
+ * @apiError (400: Invalid offset) {String} message "Invalid offset - please refer to documentation"
+ * @apiError (400: Invalid ISBN) {String} message "Invalid ISBN - please refer to documentation"
+ */
+reviewsRouter.get(
+    '/isbns/:isbn/reviews',
+    validate(getReviewsSchema),
+    (
+        request: IValidRequest<typeof getReviewsSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const { sort, limit, offset } = request.valid.query;
+        const orderBy = reviewSortOrders[sort];
+
+        const theQuery = `SELECT r.*, acc.username, count(h.account_id) AS helpful
+            FROM Reviews r
+            JOIN Account acc ON r.account_id = acc.account_id
+            LEFT JOIN Review_Helpful h ON h.review_id = r.review_id
+            WHERE r.isbn13 = ${storedIsbn('$1')} AND NOT r.hidden
+            GROUP BY r.review_id, acc.username
+            ORDER BY ${orderBy}
+            LIMIT $2
+            OFFSET $3`;
+        const values = [catalogIsbns(request.valid.params.isbn), limit, offset];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                response.send({
+                    reviews: result.rows.map(toReview),
+                    pagination: {
+                        limit,
+                        offset,
+                        nextPage: limit + offset,
+                    },
+                });
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {put} /books/isbns/:isbn/my-review Edit your review of a book
+ * @apiName PutMyReview
+ * @apiGroup Reviews
+ * @apiDescription Replace the text of the review the signed in account wrote of a book.
+ *
+ * @apiParam {string} isbn The ISBN of the book, in any form accepted by
+ * <code>GET /books/isbns/:isbn</code>.
+ *
+ * @apiBody {string} text The new text of the review, at most 5000 characters.
+ *
+ * @apiUse ReviewResult
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No review) {String} message "You have not reviewed this book"
+ * @apiError (400: Invalid text) {String} message "Invalid or missing review text - please refer to documentation"
+ * @apiError (400: Invalid ISBN) {String} message "Invalid ISBN - please refer to documentation"
+ */
+reviewsRouter.put(
+    '/isbns/:isbn/my-review',
+    validate(reviewTextSchema),
+    (
+        request: IValidRequest<typeof reviewTextSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery = `WITH changed AS (
+            UPDATE Reviews SET review_text = $3, updated_at = NOW()
+            WHERE account_id = $1 AND isbn13 = ${storedIsbn('$2')}
+            RETURNING *
+        ) ${selectChangedReview}`;
+        const values = [
+            request.claims.id,
+            catalogIsbns(request.valid.params.isbn),
+            request.valid.body.text,
+        ];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 1) {
+                    response.send({
+                        review: toReview(result.rows[0]),
+                    });
+                } else {
+                    next(new NotFoundError('You have not reviewed this book'));
+                }
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {delete} /books/isbns/:isbn/my-review Delete your review of a book
+ * @apiName DeleteMyReview
+ * @apiGroup Reviews
+ * @apiDescription Delete the review the signed in account wrote of a book.
+ *
+ * @apiParam {string} isbn The ISBN of the book, in any form accepted by
+ * <code>GET /books/isbns/:isbn</code>.
+ *
+ * @apiUse ReviewResult
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No review) {String} message "You have not reviewed this book"
+ * @apiError (400: Invalid ISBN) {String} message "Invalid ISBN - please refer to documentation"
+ */
+reviewsRouter.delete(
+    '/isbns/:isbn/my-review',
+    validate(isbnSchema),
+    (
+        request: IValidRequest<typeof isbnSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        // the helpful count is taken before the delete cascades to Review_Helpful
+        const theQuery = `WITH changed AS (
+            DELETE FROM Reviews
+            WHERE account_id = $1 AND isbn13 = ${storedIsbn('$2')}
+            RETURNING *
+        ) ${selectChangedReview}`;
+        const values = [
+            request.claims.id,
+            catalogIsbns(request.valid.params.isbn),
+        ];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 1) {
+                    response.send({
+                        review: toReview(result.rows[0]),
+                    });
+                } else {
+                    next(new NotFoundError('You have not reviewed this book'));
+                }
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {post} /books/reviews/:id/helpful Mark a review as helpful
+ * @apiName PostReviewHelpful
+ * @apiGroup Reviews
+ * @apiDescription Mark a review as helpful as the signed in account. Marking the same
+ * review more than once has no further effect. Accounts may not mark their own reviews.
+ *
+ * @apiParam {number} id The id of the review.
+ *
+ * @apiSuccess {number} helpful The number of accounts that marked the review helpful.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No review) {String} message "No review with given id"
+ * @apiError (400: Own review) {String} message "You cannot mark your own review as helpful"
+ * @apiError (400: Query parameter wrong type) {String} message "Query parameter not of required type - please refer to documentation"
+ */
+reviewsRouter.post(
+    '/reviews/:id/helpful',
+    validate(reviewIdSchema),
+    (
+        request: IValidRequest<typeof reviewIdSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery =
+            'SELECT account_id FROM Reviews WHERE review_id = $1 AND NOT hidden';
+        const values = [request.valid.params.id];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 0) {
+                    next(new NotFoundError('No review with given id'));
+                } else if (result.rows[0].account_id == request.claims.id) {
+                    next(
+                        new BadRequestError(
+                            'You cannot mark your own review as helpful'
+                        )
+                    );
+                } else {
+                    next();
+                }
+            })
+            .catch((error) => next(error));
+    },
+    (
+        request: IValidRequest<typeof reviewIdSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery = `WITH marked AS (
+            INSERT INTO Review_Helpful (review_id, account_id)
+            VALUES ($1, $2)
+            ON CONFLICT (review_id, account_id) DO NOTHING
+            RETURNING *
+        )
+        SELECT (SELECT count(*) FROM Review_Helpful WHERE review_id = $1)
+            + (SELECT count(*) FROM marked) AS helpful`;
+        const values = [request.valid.params.id, request.claims.id];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                response.send({
+                    helpful: parseInt(result.rows[0].helpful),
+                });
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {delete} /books/reviews/:id/helpful Unmark a review as helpful
+ * @apiName DeleteReviewHelpful
+ * @apiGroup Reviews
+ * @apiDescription Withdraw the helpful mark the signed in account gave a review.
+ *
+ * @apiParam {number} id The id of the review.
+ *
+ * @apiSuccess {number} helpful The number of accounts that marked the review helpful.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: Not marked) {String} message "You have not marked this review as helpful"
+ * @apiError (400: Query parameter wrong type) {String} message "Query parameter not of required type - please refer to documentation"
+ */
+reviewsRouter.delete(
+    '/reviews/:id/helpful',
+    validate(reviewIdSchema),
+    (
+        request: IValidRequest<typeof reviewIdSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery = `WITH unmarked AS (
+            DELETE FROM Review_Helpful
+            WHERE review_id = $1 AND account_id = $2
+            RETURNING *
+        )
+        SELECT (SELECT count(*) FROM unmarked) AS removed,
+            (SELECT count(*) FROM Review_Helpful WHERE review_id = $1)
+            - (SELECT count(*) FROM unmarked) AS helpful`;
+        const values = [request.valid.params.id, request.claims.id];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (parseInt(result.rows[0].removed) == 1) {
+                    response.send({
+                        helpful: parseInt(result.rows[0].helpful),
+                    });
+                } else {
+                    next(
+                        new NotFoundError(
+                            'You have not marked this review as helpful'
+                        )
+                    );
+                }
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {put} /books/reviews/:id/moderation Hide or show a review
+ * @apiName PutReviewModeration
+ * @apiGroup Reviews
+ * @apiPermission editor
+ * @apiDescription Set the moderation flag of a review. Hidden reviews are left out of
+ * <code>GET /books/isbns/:isbn/reviews</code> and cannot be marked helpful, but may still
+ * be edited or deleted by their author.
+ *
+ * @apiParam {number} id The id of the review.
+ *
+ * @apiBody {boolean} hidden <code>true</code> to hide the review, <code>false</code> to show it again.
+ *
+ * @apiUse ReviewResult
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No review) {String} message "No review with given id"
+ * @apiUse InsufficientRole
+ * @apiError (400: Invalid flag) {String} message "Invalid or missing hidden flag - please refer to documentation"
+ * @apiError (400: Query parameter wrong type) {String} message "Query parameter not of required type - please refer to documentation"
+ */
+reviewsRouter.put(
+    '/reviews/:id/moderation',
+    checkRole(Role.Editor),
+    validate(moderationSchema),
+    (
+        request: IValidRequest<typeof moderationSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery = `WITH changed AS (
+            UPDATE Reviews SET hidden = $2
+            WHERE review_id = $1
+            RETURNING *
+        ) ${selectChangedReview}`;
+        const values = [request.valid.params.id, request.valid.body.hidden];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 1) {
+                    response.send({
+                        review: toReview(result.rows[0]),
+                    });
+                } else {
+                    next(new NotFoundError('No review with given id'));
+                }
+            })
+            .catch((error) => next(error));
+    }
+);
+
+export { reviewsRouter };
@@ -0,0 +1,735 @@
+// express is the framework we're going to use to handle requests
+import express, { NextFunction, Response, Router } from 'express';
+import { validate } from '../../core/middleware';
+import {
+    IJwtRequest,
+    IBook,
+    IRequestSchemas,
+    ISchema,
+    IValidRequest,
+    IViolation,
+    BadRequestError,
+    NotFoundError,
+    AlreadyExistsError,
+} from '../../core/models';
+import {
+    pool,
+    validationFunctions,
+    bookFunctions,
+    isbnFunctions,
+} from '../../core/utilities';
+
+// retrieve the router object from express
+const shelvesRouter: Router = express.Router();
+
+const isDateProvided = validationFunctions.isDateProvided;
+const toBook = bookFunctions.toBook;
+const storedIsbn = bookFunctions.storedIsbn;
+const catalogIsbns = isbnFunctions.catalogIsbns;
+
+// Every account has these shelves; they cannot be renamed or deleted
+const defaultShelves = ['Want to read', 'Reading', 'Read'];
+
+export interface IShelfRequest<
+    S extends IRequestSchemas = IRequestSchemas,
+> extends IValidRequest<S> {
+    shelf?: { shelf_id: number; name: string; is_default: boolean };
+}
+
+interface IShelf {
+    id: number;
+    name: string;
+    default: boolean;
+    books: number;
+}
+
+interface IShelfEntry {
+    book: IBook;
+    added: Date;
+    started: string | null;
+    finished: string | null;
+}
+
+function toShelf(row): IShelf {
+    return {
+        id: row.shelf_id,
+        name: row.name,
+        default: row.is_default,
+        books: parseInt(row.books ?? 0),
+    };
+}
+
+function toShelfEntry(row): IShelfEntry {
+    return {
+        book: toBook(row),
+        added: row.added_at,
+        started: row.date_started,
+        finished: row.date_finished,
+    };
+}
+
+const shelfIdParams = {
+    id: {
+        type: 'integer',
+        message:
+            'Query parameter not of required type - please refer to documentation',
+    },
+} satisfies ISchema;
+
+const shelfIdSchema = {
+    params: shelfIdParams,
+} satisfies IRequestSchemas;
+
+// the routes about a book on a shelf take the ISBN of the book as well
+const shelfBookParams = {
+    ...shelfIdParams,
+    ...bookFunctions.isbnParams,
+} satisfies ISchema;
+
+const shelfBookSchema = {
+    params: shelfBookParams,
+} satisfies IRequestSchemas;
+
+const shelfNameFields = {
+    name: {
+        type: 'string',
+        check: (name) => name.trim().length > 0 && name.length <= 255,
+        message:
+            'Invalid or missing shelf name - please refer to documentation',
+    },
+} satisfies ISchema;
+
+/*
+ * The default shelves are only created when an account first asks for its shelves, so
+ * their names, in any case, are kept for them.
+ */
+const reservedNameViolations = ({ body }): IViolation[] =>
+    defaultShelves.some(
+        (name) => name.toLowerCase() == body.name.trim().toLowerCase()
+    )
+        ? [
+              {
+                  location: 'body',
+                  field: 'name',
+                  message: 'Shelf name is reserved for a default shelf',
+              },
+          ]
+        : [];
+
+const postShelfSchema = {
+    body: shelfNameFields,
+    refine: reservedNameViolations,
+} satisfies IRequestSchemas;
+
+const putShelfSchema = {
+    params: shelfIdParams,
+    body: shelfNameFields,
+    refine: reservedNameViolations,
+} satisfies IRequestSchemas;
+
+// A date field may be omitted, a YYYY-MM-DD date, or null to clear it
+const entryDateFields = {
+    started: {
+        type: 'string',
+        check: isDateProvided,
+        optional: true,
+        nullable: true,
+        message: 'Invalid started date - please refer to documentation',
+    },
+    finished: {
+        type: 'string',
+        check: isDateProvided,
+        optional: true,
+        nullable: true,
+        message: 'Invalid finished date - please refer to documentation',
+    },
+} satisfies ISchema;
+
+const postShelfBookSchema = {
+    params: shelfIdParams,
+    body: {
+        isbn13: {
+            type: 'isbn',
+            catalog: true,
+            message: 'Invalid or missing ISBN - please refer to documentation',
+        },
+        ...entryDateFields,
+    },
+} satisfies IRequestSchemas;
+
+const patchShelfBookSchema = {
+    params: shelfBookParams,
+    body: entryDateFields,
+} satisfies IRequestSchemas;
+
+const moveShelfBookSchema = {
+    params: shelfBookParams,
+    body: {
+        shelf: {
+            type: 'integer',
+            message:
+                'Invalid or missing target shelf - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+/**
+ * Checks the :id parameter, validated by the schema of the route, is a shelf owned by
+ * the signed in account and stashes the shelf row on the request.
+ */
+function mwOwnShelf(
+    request: IShelfRequest,
+    response: Response,
+    next: NextFunction
+) {
+    const theQuery =
+        'SELECT * FROM Shelves WHERE shelf_id = $1 AND account_id = $2';
+    const values = [request.valid.params.id, request.claims.id];
+
+    pool.query(theQuery, values)
+        .then((result) => {
+            if (result.rowCount == 1) {
+                request.shelf = result.rows[0];
+                next();
+            } else {
+                next(new NotFoundError('No shelf with given id'));
+            }
+        })
+        .catch((error) => next(error));
+}
+
+/**
+ * @apiDefine ShelfResult
+ * @apiSuccess {Object} shelf The shelf.
+ * @apiSuccess {number} shelf.id The id of the shelf.
+ * @apiSuccess {string} shelf.name The name of the shelf.
+ * @apiSuccess {boolean} shelf.default Whether this is one of the shelves every account has.
+ * @apiSuccess {number} shelf.books The number of books on the shelf.
+ */
+
+/**
+ * @apiDefine ShelfEntryResult
+ * @apiSuccess {Object} entry The book on the shelf.
+ * @apiSuccess {Object} entry.book The book, in the same form as returned by
+ * <code>GET /books/isbns/:isbn</code>.
+ * @apiSuccess {Date} entry.added When the book was put on the shelf.
+ * @apiSuccess {string} entry.started The date (YYYY-MM-DD) you started the book, or <code>null</code>.
+ * @apiSuccess {string} entry.finished The date (YYYY-MM-DD) you finished the book, or <code>null</code>.
+ */
+
+/**
+ * @api {get} /shelves Request your shelves
+ * @apiName GetShelves
+ * @apiGroup Shelves
+ * @apiDescription Retrieve every shelf of the signed in account. The default shelves
+ * <code>Want to read</code>, <code>Reading</code> and <code>Read</code> are created
+ * the first time an account asks for its shelves.
+ *
+ * @apiSuccess {Object[]} shelves The shelves, default shelves first, each in the same
+ * form as <code>shelf</code> returned by <code>POST /shelves</code>.
+ *
+ * @apiUse ErrorEnvelope
+ */
+shelvesRouter.get(
+    '/',
+    (request: IJwtRequest, response: Response, next: NextFunction) => {
+        const theQuery = `INSERT INTO Shelves (account_id, name, is_default)
+            SELECT $1, unnest($2::TEXT[]), TRUE
+            ON CONFLICT (account_id, name) DO NOTHING`;
+        const values = [request.claims.id, defaultShelves];
+
+        pool.query(theQuery, values)
+            .then(() => next())
+            .catch((error) => next(error));
+    },
+    (request: IJwtRequest, response: Response, next: NextFunction) => {
+        const theQuery = `SELECT s.*, count(sb.isbn13) AS books
+            FROM Shelves s
+            LEFT JOIN Shelf_Books sb ON s.shelf_id = sb.shelf_id
+            WHERE s.account_id = $1
+            GROUP BY s.shelf_id
+            ORDER BY s.is_default DESC, s.shelf_id`;
+        const values = [request.claims.id];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                response.send({
+                    shelves: result.rows.map(toShelf),
+                });
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {post} /shelves Create a shelf
+ * @apiName PostShelf
+ * @apiGroup Shelves
+ * @apiDescription Create a custom shelf for the signed in account.
+ *
+ * @apiBody {string} name The name of the shelf, unique among your shelves. The names of the
+ * default shelves cannot be used, in any case.
+ *
+ * @apiUse ShelfResult
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (400: Invalid name) {String} message "Invalid or missing shelf name - please refer to documentation"
+ * @apiError (400: Reserved name) {String} message "Shelf name is reserved for a default shelf"
+ * @apiError (400: Shelf exists) {String} message "Shelf exists"
+ */
+shelvesRouter.post(
+    '/',
+    validate(postShelfSchema),
+    (
+        request: IValidRequest<typeof postShelfSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery =
+            'INSERT INTO Shelves (account_id, name) VALUES ($1, $2) RETURNING *';
+        const values = [request.claims.id, request.valid.body.name.trim()];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                response.status(201).send({
+                    shelf: toShelf(result.rows[0]),
+                });
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {get} /shelves/:id Request the books on a shelf
+ * @apiName GetShelf
+ * @apiGroup Shelves
+ * @apiDescription Retrieve a shelf of the signed in account along with every book on
+ * it, most recently added first.
+ *
+ * @apiParam {number} id The id of the shelf.
+ *
+ * @apiUse ShelfResult
+ * @apiSuccess {Object[]} entries The books on the shelf, each in the same form as
+ * <code>entry</code> returned by <code>POST /shelves/:id/books</code>.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No shelf) {String} message "No shelf with given id"
+ * @apiError (400: Query parameter wrong type) {String} message "Query parameter not of required type - please refer to documentation"
+ */
+shelvesRouter.get(
+    '/:id',
+    validate(shelfIdSchema),
+    mwOwnShelf,
+    (request: IShelfRequest, response: Response, next: NextFunction) => {
+        const theQuery = `SELECT
+    b.isbn13, b.title, b.original_title, b.publication_year, b.rating_avg, b.rating_count,
+    b.rating_1_star, b.rating_2_star, b.rating_3_star, b.rating_4_star, b.rating_5_star,
+    b.image_url, b.image_small_url,
+    string_agg(a.Author_name, ', ' ORDER BY a.Author_name) AS authors,
+    sb.added_at, sb.date_started::TEXT, sb.date_finished::TEXT
+FROM
+    Shelf_Books sb
+JOIN
+    Books b ON sb.isbn13 = b.isbn13
+LEFT JOIN
+    Books_Authors ba ON b.isbn13 = ba.isbn13
+LEFT JOIN
+    Author a ON ba.Author_id = a.Author_id
+WHERE
+    sb.shelf_id = $1
+GROUP BY
+    b.id, sb.added_at, sb.date_started, sb.date_finished
+ORDER BY sb.added_at DESC;`;
+        const values = [request.shelf.shelf_id];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                response.send({
+                    shelf: toShelf({
+                        ...request.shelf,
+                        books: result.rowCount,
+                    }),
+                    entries: result.rows.map(toShelfEntry),
+                });
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {put} /shelves/:id Rename a shelf
+ * @apiName PutShelf
+ * @apiGroup Shelves
+ * @apiDescription Rename a custom shelf of the signed in account.
+ *
+ * @apiParam {number} id The id of the shelf.
+ *
+ * @apiBody {string} name The new name of the shelf, unique among your shelves. The names
+ * of the default shelves cannot be used, in any case.
+ *
+ * @apiUse ShelfResult
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No shelf) {String} message "No shelf with given id"
+ * @apiError (400: Default shelf) {String} message "Default shelves cannot be changed"
+ * @apiError (400: Invalid name) {String} message "Invalid or missing shelf name - please refer to documentation"
+ * @apiError (400: Reserved name) {String} message "Shelf name is reserved for a default shelf"
+ * @apiError (400: Query parameter wrong type) {String} message "Query parameter not of required type - please refer to documentation"
+ * @apiError (400: Shelf exists) {String} message "Shelf exists"
+ */
+shelvesRouter.put(
+    '/:id',
+    validate(putShelfSchema),
+    mwOwnShelf,
+    (request: IShelfRequest, response: Response, next: NextFunction) => {
+        if (request.shelf.is_default) {
+            next(new BadRequestError('Default shelves cannot be changed'));
+        } else {
+            next();
+        }
+    },
+    (
+        request: IShelfRequest<typeof putShelfSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery = `UPDATE Shelves s SET name = $2 WHERE s.shelf_id = $1
+            RETURNING s.*, (SELECT count(*) FROM Shelf_Books sb WHERE sb.shelf_id = s.shelf_id) AS books`;
+        const values = [request.shelf.shelf_id, request.valid.body.name.trim()];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                response.send({
+                    shelf: toShelf(result.rows[0]),
+                });
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {delete} /shelves/:id Delete a shelf
+ * @apiName DeleteShelf
+ * @apiGroup Shelves
+ * @apiDescription Delete a custom shelf of the signed in account, along with the
+ * record of which books were on it. The books themselves are not affected.
+ *
+ * @apiParam {number} id The id of the shelf.
+ *
+ * @apiUse ShelfResult
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No shelf) {String} message "No shelf with given id"
+ * @apiError (400: Default shelf) {String} message "Default shelves cannot be changed"
+ * @apiError (400: Query parameter wrong type) {String} message "Query parameter not of required type - please refer to documentation"
+ */
+shelvesRouter.delete(
+    '/:id',
+    validate(shelfIdSchema),
+    mwOwnShelf,
+    (request: IShelfRequest, response: Response, next: NextFunction) => {
+        if (request.shelf.is_default) {
+            next(new BadRequestError('Default shelves cannot be changed'));
+        } else {
+            next();
+        }
+    },
+    (request: IShelfRequest, response: Response, next: NextFunction) => {
+        const theQuery = `DELETE FROM Shelves s WHERE s.shelf_id = $1
+            RETURNING s.*, (SELECT count(*) FROM Shelf_Books sb WHERE sb.shelf_id = s.shelf_id) AS books`;
+        const values = [request.shelf.shelf_id];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                response.send({
+                    shelf: toShelf(result.rows[0]),
+                });
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {post} /shelves/:id/books Put a book on a shelf
+ * @apiName PostShelfBook
+ * @apiGroup Shelves
+ * @apiDescription Put a book on a shelf of the signed in account.
+ *
+ * @apiParam {number} id The id of the shelf.
+ *
+ * @apiBody {string} isbn13 The ISBN of the book, in any form accepted by
+ * <code>GET /books/isbns/:isbn</code>.
+ * @apiBody {string} [started] The date (YYYY-MM-DD) you started the book.
+ * @apiBody {string} [finished] The date (YYYY-MM-DD) you finished the book.
+ *
+ * @apiUse ShelfEntryResult
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No shelf) {String} message "No shelf with given id"
+ * @apiError (404: No book with given ISBN) {String} message "No book with given ISBN"
+ * @apiError (400: Book on shelf) {String} message "Book is already on this shelf"
+ * @apiError (400: Invalid ISBN) {String} message "Invalid or missing ISBN - please refer to documentation"
+ * @apiError (400: Invalid started date) {String} message "Invalid started date - please refer to documentation"
+ * @apiError (400: Invalid finished date) {String} message "Invalid finished date - please refer to documentation"
+ */
+shelvesRouter.post(
+    '/:id/books',
+    validate(postShelfBookSchema),
+    mwOwnShelf,
+    (
+        request: IShelfRequest<typeof postShelfBookSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery = `INSERT INTO Shelf_Books (shelf_id, isbn13, date_started, date_finished)
+            VALUES ($1, ${storedIsbn('$2')}, $3, $4)`;
+        const values = [
+            request.shelf.shelf_id,
+            catalogIsbns(request.valid.body.isbn13),
+            request.valid.body.started ?? null,
+            request.valid.body.finished ?? null,
+        ];
+
+        pool.query(theQuery, values)
+            .then(() => {
+                response.status(201);
+                next();
+            })
+            .catch((error) => next(error));
+    },
+    sendShelfEntry
+);
+
+/**
+ * @api {patch} /shelves/:id/books/:isbn Change the dates of a book on a shelf
+ * @apiName PatchShelfBook
+ * @apiGroup Shelves
+ * @apiDescription Set or clear the dates you started and finished a book on a shelf of
+ * the signed in account. Omitted dates are left untouched; <code>null</code> clears a date.
+ *
+ * @apiParam {number} id The id of the shelf.
+ * @apiParam {string} isbn The ISBN of the book, in any form accepted by
+ * <code>GET /books/isbns/:isbn</code>.
+ *
+ * @apiBody {string} [started] The date (YYYY-MM-DD) you started the book, or <code>null</code>.
+ * @apiBody {string} [finished] The date (YYYY-MM-DD) you finished the book, or <code>null</code>.
+ *
+ * @apiUse ShelfEntryResult
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No shelf) {String} message "No shelf with given id"
+ * @apiError (404: Not on shelf) {String} message "Book is not on this shelf"
+ * @apiError (400: Invalid started date) {String} message "Invalid started date - please refer to documentation"
+ * @apiError (400: Invalid finished date) {String} message "Invalid finished date - please refer to documentation"
+ * @apiError (400: Invalid ISBN) {String} message "Invalid ISBN - please refer to documentation"
+ */
+shelvesRouter.patch(
+    '/:id/books/:isbn',
+    validate(patchShelfBookSchema),
+    mwOwnShelf,
+    (
+        request: IShelfRequest<typeof patchShelfBookSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        // $3 and $5 say whether each date was provided; omitted dates are kept
+        const theQuery = `UPDATE Shelf_Books SET
+                date_started = CASE WHEN $3 THEN $4::DATE ELSE date_started END,
+                date_finished = CASE WHEN $5 THEN $6::DATE ELSE date_finished END
+            WHERE shelf_id = $1 AND isbn13 = ${storedIsbn('$2')}`;
+        const values = [
+            request.shelf.shelf_id,
+            catalogIsbns(request.valid.params.isbn),
+            request.valid.body.started !== undefined,
+            request.valid.body.started ?? null,
+            request.valid.body.finished !== undefined,
+            request.valid.body.finished ?? null,
+        ];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 1) {
+                    next();
+                } else {
+                    next(new NotFoundError('Book is not on this shelf'));
+                }
+            })
+            .catch((error) => next(error));
+    },
+    sendShelfEntry
+);
+
+/**
+ * @api {put} /shelves/:id/books/:isbn/move Move a book to another shelf
+ * @apiName MoveShelfBook
+ * @apiGroup Shelves
+ * @apiDescription Move a book from one shelf of the signed in account to another,
+ * keeping the dates recorded for it.
+ *
+ * @apiParam {number} id The id of the shelf the book is on.
+ * @apiParam {string} isbn The ISBN of the book, in any form accepted by
+ * <code>GET /books/isbns/:isbn</code>.
+ *
+ * @apiBody {number} shelf The id of the shelf to move the book to.
+ *
+ * @apiUse ShelfEntryResult
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No shelf) {String} message "No shelf with given id"
+ * @apiError (404: Not on shelf) {String} message "Book is not on this shelf, or no shelf with given id"
+ *
+ * Occurs when the book is not on shelf <code>id</code>, or when the target shelf does not exist.
+ * @apiError (400: Invalid target) {String} message "Invalid or missing target shelf - please refer to documentation"
+ * @apiError (400: Book on shelf) {String} message "Book is already on the target shelf"
+ * @apiError (400: Invalid ISBN) {String} message "Invalid ISBN - please refer to documentation"
+ */
+shelvesRouter.put(
+    '/:id/books/:isbn/move',
+    validate(moveShelfBookSchema),
+    mwOwnShelf,
+    (
+        request: IShelfRequest<typeof moveShelfBookSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        // only move onto a shelf owned by the same account
+        const theQuery = `UPDATE Shelf_Books SET shelf_id = target.shelf_id
+            FROM (SELECT shelf_id FROM Shelves WHERE shelf_id = $3 AND account_id = $4) AS target
+            WHERE Shelf_Books.shelf_id = $1 AND Shelf_Books.isbn13 = ${storedIsbn('$2')}
+            RETURNING target.shelf_id`;
+        const values = [
+            request.shelf.shelf_id,
+            catalogIsbns(request.valid.params.isbn),
+            request.valid.body.shelf,
+            request.claims.id,
+        ];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 1) {
+                    request.shelf = {
+                        ...request.shelf,
+                        shelf_id: result.rows[0].shelf_id,
+                    };
+                    next();
+                } else {
+                    next(
+                        new NotFoundError(
+                            'Book is not on this shelf, or no shelf with given id'
+                        )
+                    );
+                }
+            })
+            .catch((error) =>
+                next(
+                    error.constraint == 'shelf_books_pkey'
+                        ? new AlreadyExistsError(
+                              'Book is already on the target shelf'
+                          )
+                        : error
+                )
+            );
+    },
+    sendShelfEntry
+);
+
+/**
+ * @api {delete} /shelves/:id/books/:isbn Take a book off a shelf
+ * @apiName DeleteShelfBook
+ * @apiGroup Shelves
+ * @apiDescription Take a book off a shelf of the signed in account.
+ *
+ * @apiParam {number} id The id of the shelf.
+ * @apiParam {string} isbn The ISBN of the book, in any form accepted by
+ * <code>GET /books/isbns/:isbn</code>.
+ *
+ * @apiSuccess {number} isbn13 The ISBN of the book taken off the shelf.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (404: No shelf) {String} message "No shelf with given id"
+ * @apiError (404: Not on shelf) {String} message "Book is not on this shelf"
+ * @apiError (400: Invalid ISBN) {String} message "Invalid ISBN - please refer to documentation"
+ */
+shelvesRouter.delete(
+    '/:id/books/:isbn',
+    validate(shelfBookSchema),
+    mwOwnShelf,
+    (
+        request: IShelfRequest<typeof shelfBookSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const theQuery = `DELETE FROM Shelf_Books
+            WHERE shelf_id = $1 AND isbn13 = ${storedIsbn('$2')}
+            RETURNING isbn13`;
+        const values = [
+            request.shelf.shelf_id,
+            catalogIsbns(request.valid.params.isbn),
+        ];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 1) {
+                    response.send({
+                        isbn13: Number(result.rows[0].isbn13),
+                    });
+                } else {
+                    next(new NotFoundError('Book is not on this shelf'));
+                }
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * Sends the entry of the book (the :isbn parameter, or isbn13 in the body) on the
+ * shelf stashed on the request, looked up after it has been changed.
+ */
+function sendShelfEntry(
+    request: IShelfRequest & {
+        valid: { params: { isbn?: number }; body: { isbn13?: number } };
+    },
+    response: Response,
+    next: NextFunction
+) {
+    const theQuery = `SELECT
+    b.isbn13, b.title, b.original_title, b.publication_year, b.rating_avg, b.rating_count,
+    b.rating_1_star, b.rating_2_star, b.rating_3_star, b.rating_4_star, b.rating_5_star,
+    b.image_url, b.image_small_url,
+    string_agg(a.Author_name, ', ' ORDER BY a.Author_name) AS authors,
+    sb.added_at, sb.date_started::TEXT, sb.date_finished::TEXT
+FROM
+    Shelf_Books sb
+JOIN
+    Books b ON sb.isbn13 = b.isbn13
+LEFT JOIN
+    Books_Authors ba ON b.isbn13 = ba.isbn13
+LEFT JOIN
+    Author a ON ba.Author_id = a.Author_id
+WHERE
+    sb.shelf_id = $1 AND sb.isbn13 = ${storedIsbn('$2')}
+GROUP BY
+    b.id, sb.added_at, sb.date_started, sb.date_finished;`;
+    const values = [
+        request.shelf.shelf_id,
+        catalogIsbns(request.valid.params.isbn ?? request.valid.body.isbn13),
+    ];
+
+    pool.query(theQuery, values)
+        .then((result) => {
+            response.send({
+                entry: toShelfEntry(result.rows[0]),
+            });
+        })
+        .catch((error) => next(error));
+}
+
+export { shelvesRouter };
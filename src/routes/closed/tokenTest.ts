@@ -13,6 +13,7 @@ const tokenTestRouter: Router = express.Router();
  * @apiSuccess {String} message  the string
  *  "Your token is valid and your role is: <code>role</code>"
  *
+ * @apiUse ErrorEnvelope
  * @apiError (403: Token is not valid) {String} message "Token is not valid" when the provided Auth token is
  * invalid for any reason.
  * @apiError (401: Auth token is not supplied) {String} message "Auth token is not supplied" when no Auth token
@@ -0,0 +1,240 @@
+// express is the framework we're going to use to handle requests
+import express, { NextFunction, Response, Router } from 'express';
+import { PoolClient } from 'pg';
+import { validate } from '../../core/middleware';
+import {
+    IJwtRequest,
+    IRequestSchemas,
+    IValidRequest,
+    BadRequestError,
+    TooManyRequestsError,
+} from '../../core/models';
+import {
+    pool,
+    tokenFunctions,
+    totpFunctions,
+    signinFunctions,
+} from '../../core/utilities';
+
+// retrieve the router object from express
+const twoFactorRouter: Router = express.Router();
+
+const hashToken = tokenFunctions.hashToken;
+const authenticate = signinFunctions.authenticate;
+
+const confirmSchema = {
+    body: {
+        code: {
+            type: 'string',
+            message: 'Missing code - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+const turnOffSchema = {
+    body: {
+        password: {
+            type: 'string',
+            message: 'Missing password - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+/**
+ * @api {post} /account/me/2fa Start turning on two-factor sign in
+ * @apiName PostTwoFactor
+ * @apiGroup Account
+ * @apiDescription Create a new TOTP secret for the signed in account. Add it to an
+ * authenticator app, by scanning the URI as a QR code or typing in the secret, then send a
+ * code from the app to <code>POST /account/me/2fa/confirm</code>. Two-factor sign in is not
+ * on until it is confirmed. Calling this again before confirming replaces the secret.
+ *
+ * @apiSuccess (201: Secret created) {string} secret The base32 encoded TOTP secret.
+ * @apiSuccess (201: Secret created) {string} uri The <code>otpauth://</code> URI of the secret.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiError (400: Already on) {String} message "Two-factor sign in is already on"
+ */
+twoFactorRouter.post(
+    '/me/2fa',
+    (request: IJwtRequest, response: Response, next: NextFunction) => {
+        const secret = totpFunctions.generateSecret();
+        const theQuery = `UPDATE Account SET totp_secret = $2
+        WHERE account_id = $1 AND totp_enabled_at IS NULL
+        RETURNING email`;
+        const values = [request.claims.id, secret];
+
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 1) {
+                    response.status(201).send({
+                        secret,
+                        uri: totpFunctions.otpauthUri(
+                            secret,
+                            result.rows[0].email
+                        ),
+                    });
+                } else {
+                    next(
+                        new BadRequestError('Two-factor sign in is already on')
+                    );
+                }
+            })
+            .catch((error) => next(error));
+    }
+);
+
+/**
+ * @api {post} /account/me/2fa/confirm Turn on two-factor sign in
+ * @apiName PostTwoFactorConfirm
+ * @apiGroup Account
+ * @apiDescription Confirm the authenticator app holds the secret from
+ * <code>POST /account/me/2fa</code> by sending a code from it. Two-factor sign in is then
+ * on, and ten single use recovery codes are returned. They are only shown once: store them
+ * somewhere safe to sign in if the authenticator app is lost.
+ *
+ * @apiBody {string} code The current 6 digit code from the authenticator app.
+ *
+ * @apiSuccess {string[]} recoveryCodes The recovery codes.
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (400: Missing Code) {String} message "Missing code - please refer to documentation"
+ * @apiError (400: Not started) {String} message "Two-factor sign in has not been started or is already on"
+ * @apiError (400: Invalid Code) {String} message "Invalid code"
+ */
+twoFactorRouter.post(
+    '/me/2fa/confirm',
+    validate(confirmSchema),
+    async (
+        request: IValidRequest<typeof confirmSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        let client: PoolClient;
+        try {
+            client = await pool.connect();
+            await client.query('BEGIN');
+
+            const account = await client.query(
+                `SELECT totp_secret FROM Account
+                WHERE account_id = $1 AND totp_secret IS NOT NULL AND totp_enabled_at IS NULL
+                FOR UPDATE`,
+                [request.claims.id]
+            );
+            if (account.rowCount == 0) {
+                await client.query('ROLLBACK');
+                next(
+                    new BadRequestError(
+                        'Two-factor sign in has not been started or is already on'
+                    )
+                );
+                return;
+            }
+
+            const step = totpFunctions.verifyCode(
+                account.rows[0].totp_secret,
+                request.valid.body.code
+            );
+            if (step == null) {
+                await client.query('ROLLBACK');
+                next(new BadRequestError('Invalid code'));
+                return;
+            }
+
+            await client.query(
+                'UPDATE Account SET totp_enabled_at = NOW(), totp_last_step = $2 WHERE account_id = $1',
+                [request.claims.id, step]
+            );
+            const recoveryCodes = totpFunctions.generateRecoveryCodes();
+            await client.query(
+                'DELETE FROM Recovery_Codes WHERE account_id = $1',
+                [request.claims.id]
+            );
+            await client.query(
+                `INSERT INTO Recovery_Codes (account_id, code_hash)
+                SELECT $1, UNNEST($2::CHAR(64)[])`,
+                [request.claims.id, recoveryCodes.map(hashToken)]
+            );
+
+            await client.query('COMMIT');
+            response.send({
+                recoveryCodes,
+            });
+        } catch (error) {
+            await client?.query('ROLLBACK');
+            next(error);
+        } finally {
+            client?.release();
+        }
+    }
+);
+
+/**
+ * @api {delete} /account/me/2fa Turn off two-factor sign in
+ * @apiName DeleteTwoFactor
+ * @apiGroup Account
+ * @apiDescription Turn off two-factor sign in for the signed in account, and delete its
+ * TOTP secret and recovery codes. Failed attempts count towards the same lockout as
+ * <code>POST /login</code>.
+ *
+ * @apiBody {string} password The password of the account, to confirm the change.
+ *
+ * @apiSuccess {string} message <code>"Two-factor sign in turned off"</code>
+ *
+ * @apiUse ErrorEnvelope
+ * @apiUse ValidationErrors
+ * @apiError (400: Missing Password) {String} message "Missing password - please refer to documentation"
+ * @apiError (400: Invalid Credentials) {String} message "Invalid Credentials"
+ * @apiError (429: Too Many Attempts) {String} message "Too many failed sign in attempts - try again later"
+ */
+twoFactorRouter.delete(
+    '/me/2fa',
+    validate(turnOffSchema),
+    async (
+        request: IValidRequest<typeof turnOffSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        try {
+            const account = await pool.query(
+                'SELECT username FROM Account WHERE account_id = $1',
+                [request.claims.id]
+            );
+            const attempt =
+                account.rowCount == 0
+                    ? { status: 'invalid' as const }
+                    : await authenticate(
+                          account.rows[0].username,
+                          request.valid.body.password,
+                          request.ip,
+                          false
+                      );
+            if (attempt.status == 'throttled') {
+                next(
+                    new TooManyRequestsError(
+                        'Too many failed sign in attempts - try again later'
+                    )
+                );
+                return;
+            } else if (attempt.status == 'invalid') {
+                next(new BadRequestError('Invalid Credentials'));
+                return;
+            }
+
+            await pool.query(
+                `WITH removed AS (DELETE FROM Recovery_Codes WHERE account_id = $1)
+                UPDATE Account SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL
+                WHERE account_id = $1`,
+                [request.claims.id]
+            );
+            response.send({
+                message: 'Two-factor sign in turned off',
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+export { twoFactorRouter };
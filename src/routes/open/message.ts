@@ -1,54 +1,49 @@
 //express is the framework we're going to use to handle requests
 import express, { NextFunction, Request, Response, Router } from 'express';
 //Access the connection to Postgres Database
-import { pool, validationFunctions } from '../../core/utilities';
+import { pool } from '../../core/utilities';
+import { validate } from '../../core/middleware';
+import {
+    IRequestSchemas,
+    IRule,
+    IValidRequest,
+    NotFoundError,
+} from '../../core/models';
 
 const messageRouter: Router = express.Router();
 
-const isStringProvided = validationFunctions.isStringProvided;
-
 const format = (resultRow) =>
     `{${resultRow.priority}} - [${resultRow.name}] says: ${resultRow.message}`;
 
-function mwValidPriorityQuery(
-    request: Request,
-    response: Response,
-    next: NextFunction
-) {
-    const priority: string = request.query.priority as string;
-    if (
-        validationFunctions.isNumberProvided(priority) &&
-        parseInt(priority) >= 1 &&
-        parseInt(priority) <= 3
-    ) {
-        next();
-    } else {
-        console.error('Invalid or missing Priority');
-        response.status(400).send({
-            message:
-                'Invalid or missing Priority - please refer to documentation',
-        });
-    }
-}
+const priorityRule = {
+    type: 'integer',
+    min: 1,
+    max: 3,
+    message: 'Invalid or missing Priority - please refer to documentation',
+} satisfies IRule;
 
-function mwValidNameMessageBody(
-    request: Request,
-    response: Response,
-    next: NextFunction
-) {
-    if (
-        isStringProvided(request.body.name) &&
-        isStringProvided(request.body.message)
-    ) {
-        next();
-    } else {
-        console.error('Missing required information');
-        response.status(400).send({
+const nameMessageSchema = {
+    body: {
+        name: {
+            type: 'string',
             message:
                 'Missing required information - please refer to documentation',
-        });
-    }
-}
+        },
+        message: {
+            type: 'string',
+            message:
+                'Missing required information - please refer to documentation',
+        },
+    },
+} satisfies IRequestSchemas;
+
+const postMessageSchema = {
+    body: { ...nameMessageSchema.body, priority: priorityRule },
+} satisfies IRequestSchemas;
+
+const priorityQuerySchema = {
+    query: { priority: priorityRule },
+} satisfies IRequestSchemas;
 
 /**
  * @apiDefine JSONError
@@ -70,39 +65,29 @@ function mwValidNameMessageBody(
  * @apiSuccess (Success 201) {String} entry the string:
  *      "{<code>priority</code>} - [<code>name</code>] says: <code>message</code>"
  *
+ * @apiUse ErrorEnvelope
  * @apiError (400: Name exists) {String} message "Name exists"
  * @apiError (400: Missing Parameters) {String} message "Missing required information - please refer to documentation"
  * @apiError (400: Invalid Priority) {String} message "Invalid or missing Priority  - please refer to documentation"
+ * @apiUse ValidationErrors
  * @apiUse JSONError
  */
 messageRouter.post(
     '/',
-    mwValidNameMessageBody,
-    (request: Request, response: Response, next: NextFunction) => {
-        const priority: string = request.body.priority as string;
-        if (
-            validationFunctions.isNumberProvided(priority) &&
-            parseInt(priority) >= 1 &&
-            parseInt(priority) <= 3
-        ) {
-            next();
-        } else {
-            console.error('Invalid or missing Priority');
-            response.status(400).send({
-                message:
-                    'Invalid or missing Priority - please refer to documentation',
-            });
-        }
-    },
-    (request: Request, response: Response) => {
+    validate(postMessageSchema),
+    (
+        request: IValidRequest<typeof postMessageSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
         //We're using placeholders ($1, $2, $3) in the SQL query string to avoid SQL Injection
         //If you want to read more: https://stackoverflow.com/a/8265319
         const theQuery =
             'INSERT INTO DEMO(Name, Message, Priority) VALUES ($1, $2, $3) RETURNING *';
         const values = [
-            request.body.name,
-            request.body.message,
-            request.body.priority,
+            request.valid.body.name,
+            request.valid.body.message,
+            request.valid.body.priority,
         ];
 
         pool.query(theQuery, values)
@@ -113,24 +98,7 @@ messageRouter.post(
                     entry: format(result.rows[0]),
                 });
             })
-            .catch((error) => {
-                if (
-                    error.detail != undefined &&
-                    (error.detail as string).endsWith('already exists.')
-                ) {
-                    console.error('Name exists');
-                    response.status(400).send({
-                        message: 'Name exists',
-                    });
-                } else {
-                    //log the error
-                    console.error('DB Query error on POST');
-                    console.error(error);
-                    response.status(500).send({
-                        message: 'server error - contact support',
-                    });
-                }
-            });
+            .catch((error) => next(error));
     }
 );
 
@@ -144,25 +112,23 @@ messageRouter.post(
  *
  * @apiSuccess {String[]} entries the aggregate of all entries as the following string:
  *      "{<code>priority</code>} - [<code>name</code>] says: <code>message</code>"
+ *
+ * @apiUse ErrorEnvelope
  */
-messageRouter.get('/all', (request: Request, response: Response) => {
-    const theQuery = 'SELECT name, message, priority FROM Demo';
+messageRouter.get(
+    '/all',
+    (request: Request, response: Response, next: NextFunction) => {
+        const theQuery = 'SELECT name, message, priority FROM Demo';
 
-    pool.query(theQuery)
-        .then((result) => {
-            response.send({
-                entries: result.rows.map(format),
-            });
-        })
-        .catch((error) => {
-            //log the error
-            console.error('DB Query error on GET all');
-            console.error(error);
-            response.status(500).send({
-                message: 'server error - contact support',
-            });
-        });
-});
+        pool.query(theQuery)
+            .then((result) => {
+                response.send({
+                    entries: result.rows.map(format),
+                });
+            })
+            .catch((error) => next(error));
+    }
+);
 
 /**
  * @api {get} /message Request to retrieve entries by priority
@@ -177,16 +143,22 @@ messageRouter.get('/all', (request: Request, response: Response) => {
  * @apiSuccess {String[]} entries the aggregate of all entries with <code>priority</code> as the following string:
  *      "{<code>priority</code>} - [<code>name</code>] says: <code>message</code>"
  *
+ * @apiUse ErrorEnvelope
  * @apiError (400: Invalid Priority) {String} message "Invalid or missing Priority  - please refer to documentation"
+ * @apiUse ValidationErrors
  * @apiError (404: No messages) {String} message "No Priority <code>priority</code> messages found"
  */
 messageRouter.get(
     '/',
-    mwValidPriorityQuery,
-    (request: Request, response: Response) => {
+    validate(priorityQuerySchema),
+    (
+        request: IValidRequest<typeof priorityQuerySchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
         const theQuery =
             'SELECT name, message, priority FROM Demo where priority = $1';
-        const values = [request.query.priority];
+        const values = [request.valid.query.priority];
 
         pool.query(theQuery, values)
             .then((result) => {
@@ -195,19 +167,14 @@ messageRouter.get(
                         entries: result.rows,
                     });
                 } else {
-                    response.status(404).send({
-                        message: `No Priority ${request.query.priority} messages found`,
-                    });
+                    next(
+                        new NotFoundError(
+                            `No Priority ${request.valid.query.priority} messages found`
+                        )
+                    );
                 }
             })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on GET by priority');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
-            });
+            .catch((error) => next(error));
     }
 );
 
@@ -228,33 +195,29 @@ messageRouter.get(
  * @apiSuccess {string} entry.message The message associated with <code>name</code>
  * @apiSuccess {number} entry.priority The priority associated with <code>name</code>
  *
+ * @apiUse ErrorEnvelope
  * @apiError (404: Name Not Found) {string} message "Name not found"
  */
-messageRouter.get('/:name', (request: Request, response: Response) => {
-    const theQuery = 'SELECT name, message, priority FROM Demo WHERE name = $1';
-    let values = [request.params.name];
+messageRouter.get(
+    '/:name',
+    (request: Request, response: Response, next: NextFunction) => {
+        const theQuery =
+            'SELECT name, message, priority FROM Demo WHERE name = $1';
+        let values = [request.params.name];
 
-    pool.query(theQuery, values)
-        .then((result) => {
-            if (result.rowCount == 1) {
-                response.send({
-                    entry: result.rows[0],
-                });
-            } else {
-                response.status(404).send({
-                    message: 'Name not found',
-                });
-            }
-        })
-        .catch((error) => {
-            //log the error
-            console.error('DB Query error on GET /:name');
-            console.error(error);
-            response.status(500).send({
-                message: 'server error - contact support',
-            });
-        });
-});
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 1) {
+                    response.send({
+                        entry: result.rows[0],
+                    });
+                } else {
+                    next(new NotFoundError('Name not found'));
+                }
+            })
+            .catch((error) => next(error));
+    }
+);
 
 /**
  * @api {put} /message Request to change an entry
@@ -270,17 +233,23 @@ messageRouter.get('/:name', (request: Request, response: Response) => {
  * @apiSuccess {String} entry the string
  *      "Updated: {<code>priority</code>} - [<code>name</code>] says: <code>message</code>"
  *
+ * @apiUse ErrorEnvelope
  * @apiError (404: Name Not Found) {String} message "Name not found"
  * @apiError (400: Missing Parameters) {String} message "Missing required information" *
+ * @apiUse ValidationErrors
  * @apiUse JSONError
  */
 messageRouter.put(
     '/',
-    mwValidNameMessageBody,
-    (request: Request, response: Response, next: NextFunction) => {
+    validate(nameMessageSchema),
+    (
+        request: IValidRequest<typeof nameMessageSchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
         const theQuery =
             'UPDATE Demo SET message = $1 WHERE name = $2 RETURNING *';
-        const values = [request.body.message, request.body.name];
+        const values = [request.valid.body.message, request.valid.body.name];
 
         pool.query(theQuery, values)
             .then((result) => {
@@ -289,19 +258,10 @@ messageRouter.put(
                         entry: 'Updated: ' + format(result.rows[0]),
                     });
                 } else {
-                    response.status(404).send({
-                        message: 'Name not found',
-                    });
+                    next(new NotFoundError('Name not found'));
                 }
             })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on PUT');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
-            });
+            .catch((error) => next(error));
     }
 );
 
@@ -318,15 +278,21 @@ messageRouter.put(
  * @apiSuccess {String[]} entries the aggregate of all deleted entries with <code>priority</code> as the following string:
  *      "{<code>priority</code>} - [<code>name</code>] says: <code>message</code>"
  *
+ * @apiUse ErrorEnvelope
  * @apiError (400: Invalid or missing Priority) {String} message "Invalid or missing Priority - please refer to documentation"
+ * @apiUse ValidationErrors
  * @apiError (404: No messages) {String} message "No Priority <code>priority</code> messages found"
  */
 messageRouter.delete(
     '/',
-    mwValidPriorityQuery,
-    (request: Request, response: Response) => {
+    validate(priorityQuerySchema),
+    (
+        request: IValidRequest<typeof priorityQuerySchema>,
+        response: Response,
+        next: NextFunction
+    ) => {
         const theQuery = 'DELETE FROM Demo  WHERE priority = $1 RETURNING *';
-        const values = [request.query.priority];
+        const values = [request.valid.query.priority];
 
         pool.query(theQuery, values)
             .then((result) => {
@@ -335,19 +301,14 @@ messageRouter.delete(
                         entries: result.rows.map(format),
                     });
                 } else {
-                    response.status(404).send({
-                        message: `No Priority ${request.query.priority} messages found`,
-                    });
+                    next(
+                        new NotFoundError(
+                            `No Priority ${request.valid.query.priority} messages found`
+                        )
+                    );
                 }
             })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on DELETE by priority');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
-            });
+            .catch((error) => next(error));
     }
 );
 
@@ -364,33 +325,28 @@ messageRouter.delete(
  * @apiSuccess {String} entry the string
  *      "Deleted: {<code>priority</code>} - [<code>name</code>] says: <code>message</code>"
  *
+ * @apiUse ErrorEnvelope
  * @apiError (404: Name Not Found) {String} message "Name not found"
  */
-messageRouter.delete('/:name', (request: Request, response: Response) => {
-    const theQuery = 'DELETE FROM Demo  WHERE name = $1 RETURNING *';
-    const values = [request.params.name];
+messageRouter.delete(
+    '/:name',
+    (request: Request, response: Response, next: NextFunction) => {
+        const theQuery = 'DELETE FROM Demo  WHERE name = $1 RETURNING *';
+        const values = [request.params.name];
 
-    pool.query(theQuery, values)
-        .then((result) => {
-            if (result.rowCount == 1) {
-                response.send({
-                    entry: 'Deleted: ' + format(result.rows[0]),
-                });
-            } else {
-                response.status(404).send({
-                    message: 'Name not found',
-                });
-            }
-        })
-        .catch((error) => {
-            //log the error
-            console.error('DB Query error on DELETE /:name');
-            console.error(error);
-            response.status(500).send({
-                message: 'server error - contact support',
-            });
-        });
-});
+        pool.query(theQuery, values)
+            .then((result) => {
+                if (result.rowCount == 1) {
+                    response.send({
+                        entry: 'Deleted: ' + format(result.rows[0]),
+                    });
+                } else {
+                    next(new NotFoundError('Name not found'));
+                }
+            })
+            .catch((error) => next(error));
+    }
+);
 
 // "return" the router
 export { messageRouter };